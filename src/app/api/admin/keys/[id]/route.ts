@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { authorizeAdmin, getApiKeyStore, parseApiKeyFields, publicKeyRecord } from "@/lib/api-keys";
+import { errorPayload } from "@/lib/errors";
+import { readJsonBody } from "@/lib/validation";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(req: Request, { params }: Params) {
+  try {
+    await authorizeAdmin(req);
+    const { id } = await params;
+    const store = getApiKeyStore();
+    const record = await store.get(id);
+    if (!record) return NextResponse.json({ error: "API key not found" }, { status: 404 });
+    return NextResponse.json({ key: publicKeyRecord(record), usage: await store.getUsage(id) });
+  } catch (err: unknown) {
+    const { status, body, headers } = errorPayload(err);
+    return NextResponse.json(body, { status, headers });
+  }
+}
+
+export async function PATCH(req: Request, { params }: Params) {
+  try {
+    await authorizeAdmin(req);
+    const { id } = await params;
+    const { name, scopes, quota } = parseApiKeyFields(await readJsonBody(req));
+
+    const store = getApiKeyStore();
+    const current = await store.get(id);
+    if (!current) return NextResponse.json({ error: "API key not found" }, { status: 404 });
+    const updated = await store.update(id, {
+      ...(name ? { name } : {}),
+      ...(scopes ? { scopes } : {}),
+      ...(quota ? { quota: { daily: quota.daily === undefined ? current.quota.daily : quota.daily, monthly: quota.monthly === undefined ? current.quota.monthly : quota.monthly } } : {}),
+    });
+    return NextResponse.json({ key: updated && publicKeyRecord(updated) });
+  } catch (err: unknown) {
+    const { status, body, headers } = errorPayload(err);
+    return NextResponse.json(body, { status, headers });
+  }
+}
+
+/** Revokes the key. Revoked keys stay listed for auditing but can no longer authenticate. */
+export async function DELETE(req: Request, { params }: Params) {
+  try {
+    await authorizeAdmin(req);
+    const { id } = await params;
+    const updated = await getApiKeyStore().update(id, { revokedAt: new Date().toISOString() });
+    if (!updated) return NextResponse.json({ error: "API key not found" }, { status: 404 });
+    return NextResponse.json({ key: publicKeyRecord(updated) });
+  } catch (err: unknown) {
+    const { status, body, headers } = errorPayload(err);
+    return NextResponse.json(body, { status, headers });
+  }
+}
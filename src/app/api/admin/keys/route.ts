@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { authorizeAdmin, createApiKey, getApiKeyStore, parseApiKeyFields, publicKeyRecord } from "@/lib/api-keys";
+import { errorPayload } from "@/lib/errors";
+import { readJsonBody, RequestValidationError } from "@/lib/validation";
+
+export const runtime = "nodejs";
+
+export async function GET(req: Request) {
+  try {
+    await authorizeAdmin(req);
+    const store = getApiKeyStore();
+    const keys = await store.list();
+    const withUsage = await Promise.all(keys.map(async (k) => ({ ...publicKeyRecord(k), usage: await store.getUsage(k.id) })));
+    return NextResponse.json({ keys: withUsage });
+  } catch (err: unknown) {
+    const { status, body, headers } = errorPayload(err);
+    return NextResponse.json(body, { status, headers });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    await authorizeAdmin(req);
+    const { name, scopes, quota } = parseApiKeyFields(await readJsonBody(req));
+    if (!name) throw new RequestValidationError([{ path: "name", message: "name is required" }]);
+
+    const { key, record } = await createApiKey({ name, scopes: scopes ?? ["titles:generate"], quota });
+    // The plaintext key is only ever returned here
+    return NextResponse.json({ key, record: publicKeyRecord(record) }, { status: 201 });
+  } catch (err: unknown) {
+    const { status, body, headers } = errorPayload(err);
+    return NextResponse.json(body, { status, headers });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/api-keys";
+import { channelSummary, getChannelStore, parseChannelId, parseStudioImport } from "@/lib/channels";
+import { errorPayload } from "@/lib/errors";
+import { readJsonBody } from "@/lib/validation";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** Imports a YouTube Studio "Content" CSV export into the channel, creating it on first import. */
+export async function POST(req: Request, { params }: Params) {
+  try {
+    await authenticateRequest(req, "titles:generate");
+    const id = parseChannelId((await params).id);
+    const { titles, replace } = parseStudioImport(await readJsonBody(req));
+    const channel = await getChannelStore().addTitles(id, titles, replace);
+    return NextResponse.json({ channel: channelSummary(channel), added: titles.length });
+  } catch (err: unknown) {
+    const { status, body, headers } = errorPayload(err);
+    return NextResponse.json(body, { status, headers });
+  }
+}
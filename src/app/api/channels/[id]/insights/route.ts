@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/api-keys";
+import { channelInsights, getChannelStore } from "@/lib/channels";
+import { errorPayload } from "@/lib/errors";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** CTR by title feature for the channel; `?keywords=a,b` sets the keywords for keyword position. */
+export async function GET(req: Request, { params }: Params) {
+  try {
+    await authenticateRequest(req, "titles:generate");
+    const { id } = await params;
+    const channel = await getChannelStore().get(id);
+    if (!channel) return NextResponse.json({ error: "Channel not found" }, { status: 404 });
+    const keywords = (new URL(req.url).searchParams.get("keywords") ?? "")
+      .split(",")
+      .map((k) => k.trim())
+      .filter(Boolean)
+      .slice(0, 20);
+    return NextResponse.json({ insights: channelInsights(channel, keywords) });
+  } catch (err: unknown) {
+    const { status, body, headers } = errorPayload(err);
+    return NextResponse.json(body, { status, headers });
+  }
+}
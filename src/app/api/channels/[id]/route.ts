@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/api-keys";
+import { channelSummary, getChannelStore } from "@/lib/channels";
+import { errorPayload } from "@/lib/errors";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(req: Request, { params }: Params) {
+  try {
+    await authenticateRequest(req, "titles:generate");
+    const { id } = await params;
+    const channel = await getChannelStore().get(id);
+    if (!channel) return NextResponse.json({ error: "Channel not found" }, { status: 404 });
+    return NextResponse.json({ channel });
+  } catch (err: unknown) {
+    const { status, body, headers } = errorPayload(err);
+    return NextResponse.json(body, { status, headers });
+  }
+}
+
+/** Deletes the channel and all of its stored titles. */
+export async function DELETE(req: Request, { params }: Params) {
+  try {
+    await authenticateRequest(req, "titles:generate");
+    const { id } = await params;
+    const channel = await getChannelStore().delete(id);
+    if (!channel) return NextResponse.json({ error: "Channel not found" }, { status: 404 });
+    return NextResponse.json({ channel: channelSummary(channel) });
+  } catch (err: unknown) {
+    const { status, body, headers } = errorPayload(err);
+    return NextResponse.json(body, { status, headers });
+  }
+}
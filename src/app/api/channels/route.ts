@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/api-keys";
+import { channelSummary, getChannelStore } from "@/lib/channels";
+import { errorPayload } from "@/lib/errors";
+
+export const runtime = "nodejs";
+
+export async function GET(req: Request) {
+  try {
+    await authenticateRequest(req, "titles:generate");
+    const channels = await getChannelStore().list();
+    return NextResponse.json({ channels: channels.map(channelSummary) });
+  } catch (err: unknown) {
+    const { status, body, headers } = errorPayload(err);
+    return NextResponse.json(body, { status, headers });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { requireApiKey } from "@/lib/api-keys";
+import { errorPayload } from "@/lib/errors";
+import { getHistoryStore } from "@/lib/history";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const owner = await requireApiKey(req, "titles:generate");
+    const entry = await getHistoryStore().get(owner.id, (await params).id);
+    if (!entry) return NextResponse.json({ error: "History entry not found" }, { status: 404 });
+    return NextResponse.json({ entry });
+  } catch (err: unknown) {
+    const { status, body, headers } = errorPayload(err);
+    return NextResponse.json(body, { status, headers });
+  }
+}
+
+export async function DELETE(req: Request, { params }: Params) {
+  try {
+    const owner = await requireApiKey(req, "titles:generate");
+    const entry = await getHistoryStore().delete(owner.id, (await params).id);
+    if (!entry) return NextResponse.json({ error: "History entry not found" }, { status: 404 });
+    return NextResponse.json({ entry });
+  } catch (err: unknown) {
+    const { status, body, headers } = errorPayload(err);
+    return NextResponse.json(body, { status, headers });
+  }
+}
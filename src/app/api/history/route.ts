@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { requireApiKey } from "@/lib/api-keys";
+import { errorPayload } from "@/lib/errors";
+import { getHistoryStore, parseHistoryEntry, searchHistory } from "@/lib/history";
+import { readJsonBody } from "@/lib/validation";
+
+export const runtime = "nodejs";
+
+/** The caller's saved generations, newest first; `?q=` filters them. */
+export async function GET(req: Request) {
+  try {
+    const owner = await requireApiKey(req, "titles:generate");
+    const query = new URL(req.url).searchParams.get("q") ?? "";
+    return NextResponse.json({ entries: searchHistory(await getHistoryStore().list(owner.id), query) });
+  } catch (err: unknown) {
+    const { status, body, headers } = errorPayload(err);
+    return NextResponse.json(body, { status, headers });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const owner = await requireApiKey(req, "titles:generate");
+    const entry = parseHistoryEntry(await readJsonBody(req));
+    await getHistoryStore().insert(owner.id, entry);
+    return NextResponse.json({ entry }, { status: 201 });
+  } catch (err: unknown) {
+    const { status, body, headers } = errorPayload(err);
+    return NextResponse.json(body, { status, headers });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/api-keys";
+import { getProfileStore, parseProfilePatch } from "@/lib/profiles";
+import { errorPayload } from "@/lib/errors";
+import { readJsonBody } from "@/lib/validation";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(req: Request, { params }: Params) {
+  try {
+    await authenticateRequest(req, "titles:generate");
+    const { id } = await params;
+    const profile = await getProfileStore().get(id);
+    if (!profile) return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    return NextResponse.json({ profile });
+  } catch (err: unknown) {
+    const { status, body, headers } = errorPayload(err);
+    return NextResponse.json(body, { status, headers });
+  }
+}
+
+export async function PATCH(req: Request, { params }: Params) {
+  try {
+    await authenticateRequest(req, "titles:generate");
+    const { id } = await params;
+    const patch = parseProfilePatch(await readJsonBody(req));
+    const profile = await getProfileStore().update(id, { ...patch, updatedAt: new Date().toISOString() });
+    if (!profile) return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    return NextResponse.json({ profile });
+  } catch (err: unknown) {
+    const { status, body, headers } = errorPayload(err);
+    return NextResponse.json(body, { status, headers });
+  }
+}
+
+export async function DELETE(req: Request, { params }: Params) {
+  try {
+    await authenticateRequest(req, "titles:generate");
+    const { id } = await params;
+    const profile = await getProfileStore().delete(id);
+    if (!profile) return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    return NextResponse.json({ profile });
+  } catch (err: unknown) {
+    const { status, body, headers } = errorPayload(err);
+    return NextResponse.json(body, { status, headers });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/api-keys";
+import { createProfile, getProfileStore, parseProfileFields } from "@/lib/profiles";
+import { errorPayload } from "@/lib/errors";
+import { readJsonBody } from "@/lib/validation";
+
+export const runtime = "nodejs";
+
+export async function GET(req: Request) {
+  try {
+    await authenticateRequest(req, "titles:generate");
+    return NextResponse.json({ profiles: await getProfileStore().list() });
+  } catch (err: unknown) {
+    const { status, body, headers } = errorPayload(err);
+    return NextResponse.json(body, { status, headers });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    await authenticateRequest(req, "titles:generate");
+    const profile = await createProfile(parseProfileFields(await readJsonBody(req)));
+    return NextResponse.json({ profile }, { status: 201 });
+  } catch (err: unknown) {
+    const { status, body, headers } = errorPayload(err);
+    return NextResponse.json(body, { status, headers });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/api-keys";
+import { corsHeaders } from "@/lib/cors";
+import { errorPayload } from "@/lib/errors";
+import { getJobStore, publicJob, startJobWorker } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+const CORS_HEADERS = corsHeaders({ methods: "GET, OPTIONS" });
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: CORS_HEADERS });
+}
+
+/** Status, progress and (partial) results. Polling is free: it does not count against quotas. */
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const key = await authenticateRequest(req, "titles:generate");
+    startJobWorker();
+    const { id } = await params;
+    const job = await getJobStore().get(id);
+    // Jobs created with a key are only visible to that key
+    if (!job || (job.keyId && job.keyId !== key?.id)) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404, headers: CORS_HEADERS });
+    }
+    return NextResponse.json(publicJob(job), { headers: { ...CORS_HEADERS, "Cache-Control": "no-store" } });
+  } catch (err: unknown) {
+    const { status, body, headers } = errorPayload(err);
+    return NextResponse.json(body, { status, headers: { ...CORS_HEADERS, ...headers } });
+  }
+}
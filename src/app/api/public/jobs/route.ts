@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { authorizeRequest } from "@/lib/api-keys";
+import { corsHeaders } from "@/lib/cors";
+import { errorPayload } from "@/lib/errors";
+import { createJob, kickJobWorker, parseJobRequest, publicJob } from "@/lib/jobs";
+import { readJsonBody } from "@/lib/validation";
+
+export const runtime = "nodejs";
+
+const CORS_HEADERS = corsHeaders({ exposeHeaders: ["Location"] });
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: CORS_HEADERS });
+}
+
+/** Queues a job and answers `202` right away; poll the `Location` URL for progress. */
+export async function POST(req: Request) {
+  try {
+    const request = await parseJobRequest(await readJsonBody(req));
+    // Each brief counts against the key's quota, as with the batch route
+    const key = await authorizeRequest(req, "titles:generate", request.items.length);
+
+    const job = await createJob(request, key?.id ?? null);
+    kickJobWorker();
+
+    const location = new URL(`/api/public/jobs/${job.id}`, req.url).toString();
+    return NextResponse.json(publicJob(job), { status: 202, headers: { ...CORS_HEADERS, Location: location } });
+  } catch (err: unknown) {
+    const { status, body, headers } = errorPayload(err);
+    return NextResponse.json(body, { status, headers: { ...CORS_HEADERS, ...headers } });
+  }
+}
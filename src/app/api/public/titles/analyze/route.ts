@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { authorizeRequest } from "@/lib/api-keys";
+import { corsHeaders } from "@/lib/cors";
+import { errorPayload } from "@/lib/errors";
+import { analyzeTitles, parseTitleAnalyze } from "@/lib/titles";
+import { readJsonBody } from "@/lib/validation";
+
+export const runtime = "nodejs";
+export const maxDuration = 20; // seconds
+
+const CORS_HEADERS = corsHeaders();
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: CORS_HEADERS });
+}
+
+export async function POST(req: Request) {
+  try {
+    const { request, options } = parseTitleAnalyze(await readJsonBody(req));
+    await authorizeRequest(req, "titles:generate");
+    const result = await analyzeTitles(request, { ...options, signal: req.signal });
+
+    return NextResponse.json(result, { headers: CORS_HEADERS });
+  } catch (err: unknown) {
+    const { status, body, headers } = errorPayload(err);
+    return NextResponse.json(body, { status, headers: { ...CORS_HEADERS, ...headers } });
+  }
+}
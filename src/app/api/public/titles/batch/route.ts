@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { authorizeRequest } from "@/lib/api-keys";
+import { corsHeaders } from "@/lib/cors";
+import { errorPayload } from "@/lib/errors";
+import { wantsFreshResponse } from "@/lib/http-cache";
+import { ndjson, wantsNdjson } from "@/lib/ndjson";
+import { streamResponse } from "@/lib/stream-response";
+import { parseTitleBatch, runTitleBatch, summarizeBatch } from "@/lib/titles";
+import type { TitleBatchResult } from "@/lib/titles";
+import { readJsonBody } from "@/lib/validation";
+
+export const runtime = "nodejs";
+export const maxDuration = 60; // seconds
+
+const CORS_HEADERS = corsHeaders({ allowHeaders: ["Cache-Control", "Accept"] });
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: CORS_HEADERS });
+}
+
+export async function POST(req: Request) {
+  try {
+    const batch = parseTitleBatch(await readJsonBody(req));
+    // Each brief counts against the key's quota
+    await authorizeRequest(req, "titles:generate", batch.items.length);
+
+    const results = runTitleBatch(batch, { cache: wantsFreshResponse(req) ? "bypass" : undefined, signal: req.signal });
+
+    if (wantsNdjson(req)) {
+      // Results in completion order, then one summary line
+      async function* lines() {
+        const done: TitleBatchResult[] = [];
+        for await (const result of results) {
+          done.push(result);
+          yield result;
+        }
+        yield { done: true, meta: summarizeBatch(done) };
+      }
+      return streamResponse(lines(), ndjson, (err) => errorPayload(err).body, CORS_HEADERS);
+    }
+
+    const byId = new Map<string, TitleBatchResult>();
+    for await (const result of results) byId.set(result.id, result);
+    const ordered = batch.items.map((item) => byId.get(item.id)!);
+
+    return NextResponse.json({ results: ordered, meta: summarizeBatch(ordered) }, { headers: CORS_HEADERS });
+  } catch (err: unknown) {
+    const { status, body, headers } = errorPayload(err);
+    return NextResponse.json(body, { status, headers: { ...CORS_HEADERS, ...headers } });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { errorPayload } from "@/lib/errors";
+import { parseTitleRefine, refineTitle, withoutModelOverrides } from "@/lib/titles";
+import { readJsonBody } from "@/lib/validation";
+
+export const runtime = "nodejs";
+export const maxDuration = 20;
+
+/** One turn of the Home page's refinement chat; conversations are never cached. */
+export async function POST(req: Request) {
+  try {
+    const { request, options } = parseTitleRefine(await readJsonBody(req));
+    return NextResponse.json(await refineTitle(request, { ...withoutModelOverrides(options), signal: req.signal }));
+  } catch (err: unknown) {
+    const { status, body } = errorPayload(err);
+    return NextResponse.json(body, { status });
+  }
+}
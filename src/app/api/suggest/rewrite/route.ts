@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { errorPayload } from "@/lib/errors";
+import { parseTitleRewrite, rewriteTitle, withoutModelOverrides } from "@/lib/titles";
+import { readJsonBody } from "@/lib/validation";
+
+export const runtime = "nodejs";
+export const maxDuration = 20;
+
+/** The Home page's "Rewrite my title" tab; same as the public rewrite route, without the API key. */
+export async function POST(req: Request) {
+  try {
+    const { request, options } = parseTitleRewrite(await readJsonBody(req));
+    return NextResponse.json(await rewriteTitle(request, { ...withoutModelOverrides(options), signal: req.signal }));
+  } catch (err: unknown) {
+    const { status, body } = errorPayload(err);
+    return NextResponse.json(body, { status });
+  }
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import Link from "next/link";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { storedKeyHeaders } from "@/lib/api-keys/browser";
+import { responseErrorMessage } from "@/lib/fetch-error";
+import type { Channel } from "@/lib/channels/types";
+
+type ChannelSummary = Omit<Channel, "titles"> & { titleCount: number };
+
+export default function ChannelsPage() {
+  const [channels, setChannels] = useState<ChannelSummary[]>([]);
+  const [selected, setSelected] = useState<Channel | null>(null);
+  const [channelId, setChannelId] = useState("");
+  const [text, setText] = useState("");
+  // A YouTube Studio CSV export, imported instead of the pasted text when set
+  const [csv, setCsv] = useState<{ name: string; text: string } | null>(null);
+  const [replace, setReplace] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function loadChannels() {
+    try {
+      const res = await fetch("/api/channels", { headers: storedKeyHeaders() });
+      if (!res.ok) throw new Error(await responseErrorMessage(res));
+      setChannels(((await res.json()) as { channels: ChannelSummary[] }).channels);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Unexpected error");
+    }
+  }
+
+  async function open(id: string) {
+    setError(null);
+    try {
+      const res = await fetch(`/api/channels/${id}`, { headers: storedKeyHeaders() });
+      if (!res.ok) throw new Error(await responseErrorMessage(res));
+      setSelected(((await res.json()) as { channel: Channel }).channel);
+      setChannelId(id);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Unexpected error");
+    }
+  }
+
+  useEffect(() => {
+    loadChannels();
+  }, []);
+
+  async function onFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (/\.csv$/i.test(file.name)) setCsv({ name: file.name, text: await file.text() });
+    else setText(await file.text());
+  }
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setSaving(true);
+    try {
+      const id = channelId.trim();
+      const res = await fetch(`/api/channels/${encodeURIComponent(id)}/${csv ? "import" : "titles"}`, {
+        method: "POST",
+        headers: { ...storedKeyHeaders(), "Content-Type": "application/json" },
+        body: JSON.stringify(csv ? { csv: csv.text, replace } : { text, replace }),
+      });
+      if (!res.ok) throw new Error(await responseErrorMessage(res));
+      setText("");
+      setCsv(null);
+      await loadChannels();
+      await open(id);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Unexpected error");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function remove(id: string) {
+    if (!window.confirm(`Delete the "${id}" channel and all of its titles?`)) return;
+    setError(null);
+    try {
+      const res = await fetch(`/api/channels/${id}`, { method: "DELETE", headers: storedKeyHeaders() });
+      if (!res.ok) throw new Error(await responseErrorMessage(res));
+      if (selected?.id === id) setSelected(null);
+      await loadChannels();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Unexpected error");
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto max-w-4xl p-6 sm:p-10">
+        <div className="mb-8 flex items-center justify-between gap-3">
+          <h1 className="text-xl font-semibold">Channel title history</h1>
+          <div className="flex gap-4">
+            <Link href="/insights" className="text-sm text-muted-foreground hover:underline">
+              Insights
+            </Link>
+            <Link href="/" className="text-sm text-muted-foreground hover:underline">
+              Back to titles
+            </Link>
+          </div>
+        </div>
+
+        {channels.length > 0 && (
+          <div className="mb-8 grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {channels.map((channel) => (
+              <Card key={channel.id} className="border-neutral-200 dark:border-neutral-800">
+                <CardContent className="p-4">
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <p className="font-medium">{channel.id}</p>
+                      <p className="text-xs text-muted-foreground">{channel.titleCount} titles</p>
+                    </div>
+                    <div className="flex shrink-0 gap-2">
+                      <Button type="button" size="sm" variant="secondary" onClick={() => open(channel.id)}>
+                        View
+                      </Button>
+                      <Button type="button" size="sm" variant="outline" onClick={() => remove(channel.id)}>
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <Card className="border-neutral-200 dark:border-neutral-800">
+          <CardHeader>
+            <CardTitle className="text-lg">Add past titles</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={onSubmit} className="space-y-5">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="channelId">Channel id</Label>
+                  <Input id="channelId" placeholder="e.g. main" value={channelId} onChange={(e) => setChannelId(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="file">Upload a file or YouTube Studio CSV export</Label>
+                  <Input id="file" type="file" accept=".txt,.tsv,.csv,text/plain,text/tab-separated-values,text/csv" onChange={onFile} />
+                </div>
+              </div>
+
+              {csv ? (
+                <div className="flex items-center justify-between gap-3 rounded-md border border-neutral-200 dark:border-neutral-800 p-3 text-sm">
+                  <span>
+                    Importing <span className="font-medium">{csv.name}</span> (title, views, impressions, CTR and average view duration)
+                  </span>
+                  <Button type="button" size="sm" variant="outline" onClick={() => setCsv(null)}>
+                    Clear
+                  </Button>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="text">Titles (one per line; optional tab-separated views and CTR %)</Label>
+                  <Textarea
+                    id="text"
+                    placeholder={"I Rebuilt My App in Rust\t120000\t6.1%\nReact Hooks in 10 Minutes"}
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    className="min-h-40 font-mono text-xs"
+                  />
+                </div>
+              )}
+
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex items-center gap-2">
+                  <Switch id="replace" checked={replace} onCheckedChange={setReplace} />
+                  <Label htmlFor="replace">Replace existing titles</Label>
+                </div>
+                <Button type="submit" disabled={!channelId.trim() || !(csv || text.trim()) || saving}>
+                  {saving ? "Saving..." : csv ? "Import CSV" : "Save titles"}
+                </Button>
+              </div>
+
+              {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+            </form>
+          </CardContent>
+        </Card>
+
+        {selected && (
+          <Card className="mt-8 border-neutral-200 dark:border-neutral-800">
+            <CardHeader>
+              <CardTitle className="text-lg">{selected.id}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Title</TableHead>
+                    <TableHead className="text-right">Views</TableHead>
+                    <TableHead className="text-right">Impressions</TableHead>
+                    <TableHead className="text-right">CTR</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selected.titles.map((t) => (
+                    <TableRow key={t.title}>
+                      <TableCell className="whitespace-normal">{t.title}</TableCell>
+                      <TableCell className="text-right">{t.views?.toLocaleString() ?? "—"}</TableCell>
+                      <TableCell className="text-right">{t.impressions?.toLocaleString() ?? "—"}</TableCell>
+                      <TableCell className="text-right">{t.ctr !== null ? `${t.ctr}%` : "—"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import Link from "next/link";
+
+import { useEffect, useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { storedKeyHeaders } from "@/lib/api-keys/browser";
+import { responseErrorMessage } from "@/lib/fetch-error";
+import type { ChannelInsights, FeatureInsight } from "@/lib/channels/insights";
+import type { Channel } from "@/lib/channels/types";
+
+type ChannelSummary = Omit<Channel, "titles"> & { titleCount: number };
+
+const chartConfig = {
+  meanCtr: { label: "Mean CTR (%)", color: "var(--chart-1)" },
+  count: { label: "Titles" },
+} satisfies ChartConfig;
+
+/** Buckets with fewer titles than this are flagged as too small to read much into. */
+const SMALL_BUCKET = 5;
+
+function describeCorrelation(r: number | null): string {
+  if (r === null) return "n/a";
+  const strength = Math.abs(r) < 0.1 ? "none" : Math.abs(r) < 0.3 ? "weak" : Math.abs(r) < 0.5 ? "moderate" : "strong";
+  return `r = ${r.toFixed(2)} (${strength})`;
+}
+
+function FeatureChart({ feature }: { feature: FeatureInsight }) {
+  const small = feature.buckets.filter((b) => b.count < SMALL_BUCKET);
+  return (
+    <Card className="border-neutral-200 dark:border-neutral-800">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3">
+          <CardTitle className="text-base">{feature.label}</CardTitle>
+          {feature.correlation !== null && <Badge variant="outline">{describeCorrelation(feature.correlation)}</Badge>}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+          <BarChart data={feature.buckets} margin={{ left: -16 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="bucket" tickLine={false} axisLine={false} />
+            <YAxis tickLine={false} axisLine={false} unit="%" />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="meanCtr" fill="var(--color-meanCtr)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+        <p className="mt-2 text-xs text-muted-foreground">
+          {feature.buckets.map((b) => `${b.bucket}: ${b.count} titles${b.meanViews !== null ? `, ${b.meanViews.toLocaleString()} avg views` : ""}`).join(" · ")}
+        </p>
+        {small.length > 0 && (
+          <p className="mt-1 text-xs text-muted-foreground">
+            Fewer than {SMALL_BUCKET} titles in {small.map((b) => b.bucket).join(", ")}; treat those bars with caution.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function InsightsPage() {
+  const [channels, setChannels] = useState<ChannelSummary[]>([]);
+  const [channelId, setChannelId] = useState("");
+  const [keywords, setKeywords] = useState("");
+  const [insights, setInsights] = useState<ChannelInsights | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch("/api/channels", { headers: storedKeyHeaders() });
+        if (!res.ok) throw new Error(await responseErrorMessage(res));
+        const list = ((await res.json()) as { channels: ChannelSummary[] }).channels;
+        setChannels(list);
+        if (list.length) {
+          setChannelId(list[0].id);
+          await load(list[0].id, "");
+        }
+      } catch (err: unknown) {
+        setError(err instanceof Error ? err.message : "Unexpected error");
+      }
+    })();
+  }, []);
+
+  async function load(id: string, words: string) {
+    setError(null);
+    setLoading(true);
+    try {
+      const query = words.trim() ? `?keywords=${encodeURIComponent(words)}` : "";
+      const res = await fetch(`/api/channels/${encodeURIComponent(id)}/insights${query}`, { headers: storedKeyHeaders() });
+      if (!res.ok) throw new Error(await responseErrorMessage(res));
+      setInsights(((await res.json()) as { insights: ChannelInsights }).insights);
+    } catch (err: unknown) {
+      setInsights(null);
+      setError(err instanceof Error ? err.message : "Unexpected error");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // Keywords are applied on submit; changing the channel reloads right away
+  function choose(id: string) {
+    setChannelId(id);
+    load(id, keywords);
+  }
+
+  function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (channelId) load(channelId, keywords);
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto max-w-4xl p-6 sm:p-10">
+        <div className="mb-8 flex items-center justify-between gap-3">
+          <h1 className="text-xl font-semibold">Title insights</h1>
+          <Link href="/" className="text-sm text-muted-foreground hover:underline">
+            Back to titles
+          </Link>
+        </div>
+
+        {channels.length === 0 && !error ? (
+          <p className="text-sm text-muted-foreground">
+            No channels yet.{" "}
+            <Link href="/channels" className="underline">
+              Import a YouTube Studio export
+            </Link>{" "}
+            to see how your titles perform.
+          </p>
+        ) : (
+          <form onSubmit={onSubmit} className="mb-8 grid grid-cols-1 sm:grid-cols-[1fr_2fr_auto] items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="channel">Channel</Label>
+              <Select value={channelId} onValueChange={choose}>
+                <SelectTrigger id="channel" className="w-full">
+                  <SelectValue placeholder="Choose a channel" />
+                </SelectTrigger>
+                <SelectContent>
+                  {channels.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {c.id} ({c.titleCount})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="keywords">Keywords (comma-separated; defaults to the channel&apos;s most used words)</Label>
+              <Input id="keywords" placeholder="e.g. typescript, react" value={keywords} onChange={(e) => setKeywords(e.target.value)} />
+            </div>
+            <Button type="submit" disabled={!channelId || loading}>
+              {loading ? "Loading..." : "Apply"}
+            </Button>
+          </form>
+        )}
+
+        {error && <p className="mb-6 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        {insights && (
+          <>
+            <div className="mb-6 flex flex-wrap items-center gap-2 text-sm">
+              <span>
+                {insights.titles} titles with CTR
+                {insights.meanCtr !== null && `, ${insights.meanCtr}% mean CTR`}
+              </span>
+              {insights.keywords.map((k) => (
+                <Badge key={k} variant="secondary">
+                  {k}
+                </Badge>
+              ))}
+            </div>
+            {insights.titles === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                This channel has no CTR data. Import the Content report from YouTube Studio on the{" "}
+                <Link href="/channels" className="underline">
+                  channels page
+                </Link>
+                .
+              </p>
+            ) : (
+              <div className="grid grid-cols-1 gap-4">
+                {insights.features.map((feature) => (
+                  <FeatureChart key={feature.feature} feature={feature} />
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,27 +1,71 @@
 "use client";
 
 import Image from "next/image";
+import Link from "next/link";
 
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Tooltip, TooltipTrigger, TooltipContent } from "@/components/ui/tooltip";
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { HistorySidebar } from "@/components/history-sidebar";
+import { RefineSheet } from "@/components/refine-sheet";
+import { RewritePanel } from "@/components/rewrite-panel";
+import { TitleScores } from "@/components/title-scores";
+import { clearApiKey, loadApiKey, saveApiKey, storedKeyHeaders } from "@/lib/api-keys/browser";
+import { responseErrorMessage } from "@/lib/fetch-error";
+import { localHistory, remoteHistory } from "@/lib/history/browser";
+import type { HistoryBackend } from "@/lib/history/browser";
+import { readSseEvents } from "@/lib/sse";
+import { STYLE_GUIDES, TITLE_STYLES } from "@/lib/titles/styles";
+import type { HistoryEntry } from "@/lib/history/types";
+import type { VoiceProfile } from "@/lib/profiles/types";
+import type { GenerateTitlesResult, TitleInput, TitleItem, TitleStyle, TitleSummary } from "@/lib/titles/types";
 
 type UnknownRecord = Record<string, unknown>;
 
+/** The API accepts up to 100 excluded titles. */
+const EXCLUDE_LIMIT = 100;
+
 export default function Home() {
   const [description, setDescription] = useState("");
   const [keywords, setKeywords] = useState("");
   const [niche, setNiche] = useState("");
   const [language, setLanguage] = useState("English");
+  const [count, setCount] = useState("");
+  const [maxLength, setMaxLength] = useState("45");
+  const [rewriteLong, setRewriteLong] = useState(false);
+  const [rerank, setRerank] = useState(false);
+  const [styles, setStyles] = useState<TitleStyle[]>([]);
+  const [profiles, setProfiles] = useState<VoiceProfile[]>([]);
+  const [profileId, setProfileId] = useState("none");
+  const [channels, setChannels] = useState<{ id: string; titleCount: number }[]>([]);
+  const [channelId, setChannelId] = useState("none");
+  const [examples, setExamples] = useState<string[]>([]);
+  const [summary, setSummary] = useState<TitleSummary | null>(null);
+  // The corrected summary later generations are written for, until it is cleared or the description changes
+  const [briefSummary, setBriefSummary] = useState<TitleSummary | null>(null);
+  // The brief the shown titles came from, which the refine chat is seeded with
+  const [resultBrief, setResultBrief] = useState<TitleInput | null>(null);
+  const [refining, setRefining] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [rawResponse, setRawResponse] = useState<UnknownRecord | string | null>(null);
-  const [titles, setTitles] = useState<string[]>([]);
+  const [titles, setTitles] = useState<TitleItem[]>([]);
+  // Titles the user dismissed; they stay excluded until the brief changes
+  const [rejected, setRejected] = useState<string[]>([]);
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+  const [lastBrief, setLastBrief] = useState<string | null>(null);
+  const [history, setHistory] = useState<HistoryBackend | null>(null);
+  const [historyEntries, setHistoryEntries] = useState<HistoryEntry[]>([]);
+  const [historyQuery, setHistoryQuery] = useState("");
+  const [historyError, setHistoryError] = useState<string | null>(null);
 
   async function copyTitleToClipboard(title: string, index: number) {
     try {
@@ -33,67 +77,205 @@ export default function Home() {
     }
   }
 
+  useEffect(() => {
+    fetch("/api/profiles", { headers: storedKeyHeaders() })
+      .then((res) => (res.ok ? res.json() : { profiles: [] }))
+      .then((data: { profiles: VoiceProfile[] }) => setProfiles(data.profiles))
+      .catch((e) => console.error("Loading profiles failed", e));
+    fetch("/api/channels", { headers: storedKeyHeaders() })
+      .then((res) => (res.ok ? res.json() : { channels: [] }))
+      .then((data: { channels: { id: string; titleCount: number }[] }) => setChannels(data.channels))
+      .catch((e) => console.error("Loading channels failed", e));
+    const apiKey = loadApiKey();
+    setHistory(apiKey ? remoteHistory(apiKey) : localHistory());
+  }, []);
+
+  async function refreshHistory(backend: HistoryBackend, query: string) {
+    try {
+      setHistoryEntries(await backend.list(query));
+      setHistoryError(null);
+    } catch (err: unknown) {
+      setHistoryError(err instanceof Error ? err.message : "Loading history failed");
+    }
+  }
+
+  useEffect(() => {
+    if (history) refreshHistory(history, historyQuery);
+  }, [history, historyQuery]);
+
+  // Checks the key with a listing before keeping it
+  async function signIn(apiKey: string) {
+    const backend = remoteHistory(apiKey);
+    try {
+      setHistoryEntries(await backend.list(historyQuery));
+      saveApiKey(apiKey);
+      setHistory(backend);
+      setHistoryError(null);
+    } catch (err: unknown) {
+      setHistoryError(err instanceof Error ? err.message : "Sign-in failed");
+    }
+  }
+
+  function signOut() {
+    clearApiKey();
+    setHistory(localHistory());
+  }
+
+  async function saveToHistory(input: TitleInput, result: GenerateTitlesResult) {
+    if (!history || !result.items.length) return;
+    try {
+      await history.save({ input, items: result.items, summary: result.summary, model: result.meta.model, provider: result.meta.provider });
+      await refreshHistory(history, historyQuery);
+    } catch (err: unknown) {
+      setHistoryError(err instanceof Error ? err.message : "Saving history failed");
+    }
+  }
+
+  async function deleteFromHistory(entry: HistoryEntry) {
+    if (!history) return;
+    try {
+      await history.remove(entry.id);
+      await refreshHistory(history, historyQuery);
+    } catch (err: unknown) {
+      setHistoryError(err instanceof Error ? err.message : "Deleting history failed");
+    }
+  }
+
   const disabled = useMemo(() => !description.trim() || loading, [description, loading]);
 
+  function currentBrief(): TitleInput {
+    return {
+      description,
+      keywords: keywords
+        .split(",")
+        .map((k) => k.trim())
+        .filter(Boolean),
+      niche: niche || undefined,
+      language: language || undefined,
+      count: count ? Number(count) : undefined,
+      maxLength: maxLength ? Number(maxLength) : undefined,
+      overLength: rewriteLong ? "rewrite" : undefined,
+      rerank: rerank || undefined,
+      styles: styles.length ? styles : undefined,
+      profileId: profileId === "none" ? undefined : profileId,
+      channelId: channelId === "none" ? undefined : channelId,
+      summary: briefSummary ?? undefined,
+    };
+  }
+
+  function fillForm(input: TitleInput) {
+    setDescription(input.description ?? "");
+    setKeywords((input.keywords ?? []).join(", "));
+    setNiche(input.niche ?? "");
+    setLanguage(input.language ?? "");
+    setCount(input.count ? String(input.count) : "");
+    setMaxLength(input.maxLength ? String(input.maxLength) : "");
+    setRewriteLong(input.overLength === "rewrite");
+    setRerank(Boolean(input.rerank));
+    setStyles(input.styles ?? []);
+    setProfileId(input.profileId ?? "none");
+    setChannelId(input.channelId ?? "none");
+    setBriefSummary(input.summary ?? null);
+  }
+
+  function reopen(entry: HistoryEntry) {
+    fillForm(entry.input);
+    setLastBrief(JSON.stringify(entry.input));
+    setError(null);
+    setTitles(entry.items);
+    setRejected([]);
+    setExamples([]);
+    setSummary(entry.summary);
+    setResultBrief(entry.input);
+  }
+
+  function rerun(entry: HistoryEntry) {
+    fillForm(entry.input);
+    setLastBrief(JSON.stringify(entry.input));
+    generate(entry.input, "bypass");
+  }
+
+  // Submitting the same brief again means "give me new ideas": they are added below the current ones
+  const generatingMore = titles.length > 0 && JSON.stringify(currentBrief()) === lastBrief;
+
   async function onSubmit(e: React.FormEvent) {
     e.preventDefault();
+    const brief = currentBrief();
+    const briefKey = JSON.stringify(brief);
+    setLastBrief(briefKey);
+    await generate(brief, briefKey === lastBrief ? "bypass" : "default", generatingMore ? {} : null);
+  }
+
+  async function moreLike(title: string) {
+    if (resultBrief) await generate(resultBrief, "default", { like: title });
+  }
+
+  function reject(title: string) {
+    setTitles((prev) => prev.filter((item) => item.title !== title));
+    setRejected((prev) => [...prev, title]);
+  }
+
+  function clearTitles() {
+    setTitles([]);
+    setRejected([]);
+    setLastBrief(null);
+  }
+
+  // Everything the user has already been shown, explicit rejections first; the "more like this" anchor is left out
+  function seenTitles(like?: string): string[] {
+    const shown = titles.filter((item) => item.title !== like).flatMap((item) => [item.title, ...(item.duplicates ?? [])]);
+    return Array.from(new Set([...rejected, ...shown])).slice(0, EXCLUDE_LIMIT);
+  }
+
+  // Second stage: the same brief, written for the summary as the user corrected it
+  async function regenerateFromSummary() {
+    if (!summary) return;
+    setBriefSummary(summary);
+    const brief = { ...currentBrief(), summary };
+    setLastBrief(JSON.stringify(brief));
+    await generate(brief, "default");
+  }
+
+  function editSummary(key: keyof TitleSummary, value: string) {
+    setSummary((prev) => (prev ? { ...prev, [key]: value } : prev));
+  }
+
+  /**
+   * Streams a generation into the title list. With `more` the new titles are
+   * appended and everything seen so far is sent as `exclude`, plus the
+   * "more like this" anchor when there is one; otherwise the list starts over.
+   */
+  async function generate(brief: TitleInput, cache: "default" | "bypass", more: { like?: string } | null = null) {
+    const kept = more ? titles : [];
     setError(null);
     setLoading(true);
-    setRawResponse(null);
-    setTitles([]);
+    setTitles(kept);
+    if (!more) setRejected([]);
+    setExamples([]);
+    // Keep the fields on screen while regenerating from them
+    if (!brief.summary) setSummary(null);
+    setResultBrief(brief);
     try {
       const res = await fetch("/api/suggest", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          description,
-          keywords: keywords
-            .split(",")
-            .map((k) => k.trim())
-            .filter(Boolean),
-          niche: niche || undefined,
-          language: language || undefined,
-        }),
+        headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+        body: JSON.stringify({ ...brief, ...(more ? { exclude: seenTitles(more.like), like: more.like } : {}), cache }),
       });
-      const contentType = res.headers.get("content-type") || "";
-      if (contentType.includes("application/json")) {
-        const data: unknown = await res.json();
-        if (!res.ok) {
-          const errMsg = (data && typeof data === "object" && (data as UnknownRecord)["error"] ? String((data as UnknownRecord)["error"]) : "Request failed");
-          throw new Error(errMsg);
+      if (!res.ok) throw new Error(await responseErrorMessage(res));
+      // Render each title card as soon as the server streams it
+      for await (const { event, data } of readSseEvents(res.body)) {
+        const payload = JSON.parse(data) as UnknownRecord;
+        if (event === "title") {
+          setTitles((prev) => [...prev, payload as TitleItem]);
+        } else if (event === "done") {
+          const result = payload as GenerateTitlesResult;
+          setTitles([...kept, ...result.items]);
+          setExamples(result.meta.examples ?? []);
+          setSummary(result.summary);
+          saveToHistory(brief, result);
+        } else if (event === "error") {
+          throw new Error(payload["error"] ? String(payload["error"]) : "Request failed");
         }
-        // Prefer rendering only the titles if present
-        const obj = (data && typeof data === "object" ? (data as UnknownRecord) : {}) as UnknownRecord;
-        const titlesField = obj["titles"] ?? obj["suggestions"];
-        if (typeof titlesField === "string") {
-          const arr = titlesField
-            .split(",")
-            .map((s) => s.trim())
-            .filter(Boolean);
-          setTitles(arr);
-        } else if (Array.isArray(titlesField)) {
-          const arr = (titlesField as unknown[])
-            .map((s): string => {
-              if (typeof s === "string") return s.trim();
-              if (s && typeof s === "object") {
-                const r = s as UnknownRecord;
-                const val = r["title"] ?? r["text"] ?? r["suggestion"];
-                if (typeof val === "string") return val.trim();
-                const anyString = Object.values(r).find((v) => typeof v === "string");
-                if (typeof anyString === "string") return anyString.trim();
-                return String(s).trim();
-              }
-              return String(s).trim();
-            })
-            .filter(Boolean);
-          setTitles(arr);
-        } else {
-          setRawResponse(obj);
-        }
-      } else {
-        const text = await res.text();
-        if (!res.ok) throw new Error(text || "Request failed");
-        setRawResponse(text);
       }
     } catch (err: unknown) {
       const message = (err && typeof err === "object" && "message" in err)
@@ -106,137 +288,337 @@ export default function Home() {
   }
 
   return (
-    <div className="min-h-screen bg-background">
-      <div className="container mx-auto max-w-4xl p-6 sm:p-10">
-        <div className="mb-8 flex items-center gap-3">
-          <Image src="/next.svg" alt="Logo" width={120} height={24} className="dark:invert" />
-          <span className="text-sm text-muted-foreground">YouTube Title Suggester (Gemini 2.5 Flash)</span>
-        </div>
+    <SidebarProvider>
+      <HistorySidebar
+        entries={historyEntries}
+        query={historyQuery}
+        onQueryChange={setHistoryQuery}
+        onOpen={reopen}
+        onRerun={rerun}
+        onDelete={deleteFromHistory}
+        signedIn={history?.kind === "remote"}
+        onSignIn={signIn}
+        onSignOut={signOut}
+        error={historyError}
+      />
+      <SidebarInset>
+        <div className="min-h-screen bg-background">
+          <div className="container mx-auto max-w-4xl p-6 sm:p-10">
+            <div className="mb-8 flex items-center gap-3">
+              <SidebarTrigger />
+              <Image src="/next.svg" alt="Logo" width={120} height={24} className="dark:invert" />
+              <span className="text-sm text-muted-foreground">YouTube Title Suggester</span>
+            </div>
 
-        <Card className="border-neutral-200 dark:border-neutral-800">
-          <CardHeader>
-            <CardTitle className="text-lg">Describe your video</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <form onSubmit={onSubmit} className="space-y-5">
-              <div className="space-y-2">
-                <Label htmlFor="description">Description</Label>
-                <Textarea
-                  id="description"
-                  placeholder="What is the video about? Main points, value, or outcome..."
-                  value={description}
-                  onChange={(e) => setDescription(e.target.value)}
-                  className="min-h-28"
-                />
-              </div>
-
-              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-                <div className="space-y-2 sm:col-span-2">
-                  <Label htmlFor="keywords">Keywords (comma-separated)</Label>
-                  <Input
-                    id="keywords"
-                    placeholder="e.g. react, hooks, performance"
-                    value={keywords}
-                    onChange={(e) => setKeywords(e.target.value)}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="niche">Niche</Label>
-                  <Input
-                    id="niche"
-                    placeholder="e.g. programming, fitness, travel"
-                    value={niche}
-                    onChange={(e) => setNiche(e.target.value)}
-                  />
-                </div>
-              </div>
-
-              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-                <div className="space-y-2 sm:col-span-2">
-                  <Label htmlFor="language">Language</Label>
-                  <Input
-                    id="language"
-                    placeholder="e.g. English, Hindi, Spanish"
-                    value={language}
-                    onChange={(e) => setLanguage(e.target.value)}
-                  />
-                </div>
-                <div className="flex items-end">
-                  <Button type="submit" disabled={disabled} className="w-full">
-                    {loading ? "Generating..." : "Generate titles"}
-                  </Button>
-                </div>
-              </div>
-
-              {error && (
-                <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
-              )}
-            </form>
-          </CardContent>
-        </Card>
-
-        {titles.length > 0 && (
-          <Card className="mt-8 border-neutral-200 dark:border-neutral-800">
-            <CardHeader>
-              <CardTitle className="text-lg">Titles</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                {titles.map((t, i) => (
-                  <Card key={`${i}-${t}`} className="border-neutral-200 dark:border-neutral-800">
-                    <CardContent className="p-4">
-                      <div className="flex items-start justify-between gap-3">
-                        <Tooltip>
-                          <TooltipTrigger asChild>
-                            <p className="text-sm sm:text-base leading-relaxed cursor-help">
-                              {t}
-                              {i < titles.length - 1 ? "," : ""}
-                            </p>
-                          </TooltipTrigger>
-                          <TooltipContent sideOffset={6}>{t.length} chars</TooltipContent>
-                        </Tooltip>
-
-                        <Tooltip>
-                          <TooltipTrigger asChild>
-                            <Button
-                              type="button"
-                              size="sm"
-                              variant="secondary"
-                              aria-label="Copy title"
-                              onClick={() => copyTitleToClipboard(t, i)}
-                              className="shrink-0"
-                            >
-                              {copiedIndex === i ? "Copied" : "Copy"}
+            <Tabs defaultValue="generate">
+              <TabsList className="mb-4">
+                <TabsTrigger value="generate">From description</TabsTrigger>
+                <TabsTrigger value="rewrite">Rewrite my title</TabsTrigger>
+              </TabsList>
+              <TabsContent value="generate">
+                <Card className="border-neutral-200 dark:border-neutral-800">
+                  <CardHeader>
+                    <CardTitle className="text-lg">Describe your video</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <form onSubmit={onSubmit} className="space-y-5">
+                      <div className="space-y-2">
+                        <Label htmlFor="description">Description</Label>
+                        <Textarea
+                          id="description"
+                          placeholder="What is the video about? Main points, value, or outcome..."
+                          value={description}
+                          onChange={(e) => {
+                            setDescription(e.target.value);
+                            setBriefSummary(null);
+                          }}
+                          className="min-h-28"
+                        />
+                        {briefSummary && (
+                          <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                            Writing for your corrected summary.
+                            <Button type="button" size="sm" variant="link" className="h-auto p-0 text-xs" onClick={() => setBriefSummary(null)}>
+                              Clear
                             </Button>
-                          </TooltipTrigger>
-                          <TooltipContent sideOffset={6}>
-                            {copiedIndex === i ? "Copied!" : "Copy title"}
-                          </TooltipContent>
-                        </Tooltip>
+                          </p>
+                        )}
+                      </div>
+
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                        <div className="space-y-2 sm:col-span-2">
+                          <Label htmlFor="keywords">Keywords (comma-separated)</Label>
+                          <Input
+                            id="keywords"
+                            placeholder="e.g. react, hooks, performance"
+                            value={keywords}
+                            onChange={(e) => setKeywords(e.target.value)}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="niche">Niche</Label>
+                          <Input
+                            id="niche"
+                            placeholder="e.g. programming, fitness, travel"
+                            value={niche}
+                            onChange={(e) => setNiche(e.target.value)}
+                          />
+                        </div>
                       </div>
+
+                      <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="count">Number of titles</Label>
+                          <Input
+                            id="count"
+                            type="number"
+                            min={1}
+                            max={25}
+                            placeholder="8-12"
+                            value={count}
+                            onChange={(e) => setCount(e.target.value)}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="maxLength">Max characters</Label>
+                          <Input
+                            id="maxLength"
+                            type="number"
+                            min={15}
+                            max={100}
+                            placeholder="45"
+                            value={maxLength}
+                            onChange={(e) => setMaxLength(e.target.value)}
+                          />
+                        </div>
+                        <div className="col-span-2 sm:col-span-1 flex flex-col justify-end gap-3 pb-2">
+                          <div className="flex items-center gap-2">
+                            <Switch id="rewriteLong" checked={rewriteLong} onCheckedChange={setRewriteLong} />
+                            <Label htmlFor="rewriteLong">Rewrite long titles</Label>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Switch id="rerank" checked={rerank} onCheckedChange={setRerank} />
+                            <Label htmlFor="rerank">Rank with AI judge</Label>
+                          </div>
+                        </div>
+                      </div>
+
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <div className="flex items-center justify-between">
+                            <Label htmlFor="profile">Brand voice</Label>
+                            <Link href="/profiles" className="text-xs text-muted-foreground hover:underline">
+                              Manage profiles
+                            </Link>
+                          </div>
+                          <Select value={profileId} onValueChange={setProfileId}>
+                            <SelectTrigger id="profile" className="w-full">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">Default voice</SelectItem>
+                              {profiles.map((p) => (
+                                <SelectItem key={p.id} value={p.id}>
+                                  {p.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-2">
+                          <div className="flex items-center justify-between">
+                            <Label htmlFor="channel">Learn from channel</Label>
+                            <Link href="/channels" className="text-xs text-muted-foreground hover:underline">
+                              Manage channels
+                            </Link>
+                          </div>
+                          <Select value={channelId} onValueChange={setChannelId}>
+                            <SelectTrigger id="channel" className="w-full">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">No examples</SelectItem>
+                              {channels.map((c) => (
+                                <SelectItem key={c.id} value={c.id}>
+                                  {c.id} ({c.titleCount})
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="styles">Styles</Label>
+                        <ToggleGroup
+                          id="styles"
+                          type="multiple"
+                          variant="outline"
+                          size="sm"
+                          value={styles}
+                          onValueChange={(v) => setStyles(v as TitleStyle[])}
+                          className="flex-wrap"
+                        >
+                          {TITLE_STYLES.map((s) => (
+                            <ToggleGroupItem key={s} value={s} className="px-3">
+                              {STYLE_GUIDES[s].label}
+                            </ToggleGroupItem>
+                          ))}
+                        </ToggleGroup>
+                        <p className="text-xs text-muted-foreground">Leave empty for a mix.</p>
+                      </div>
+
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                        <div className="space-y-2 sm:col-span-2">
+                          <Label htmlFor="language">Language</Label>
+                          <Input
+                            id="language"
+                            placeholder="e.g. English, Hindi, Spanish"
+                            value={language}
+                            onChange={(e) => setLanguage(e.target.value)}
+                          />
+                        </div>
+                        <div className="flex items-end">
+                          <Button type="submit" disabled={disabled} className="w-full">
+                            {loading ? (titles.length ? `Generating... (${titles.length})` : "Generating...") : generatingMore ? "Generate more" : "Generate titles"}
+                          </Button>
+                        </div>
+                      </div>
+
+                      {error && (
+                        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+                      )}
+                    </form>
+                  </CardContent>
+                </Card>
+
+                {summary && (
+                  <Card className="mt-8 border-neutral-200 dark:border-neutral-800">
+                    <CardHeader>
+                      <CardTitle className="text-lg">How the brief was read</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <p className="text-sm text-muted-foreground">
+                        If the model misread your video, correct the angle or audience and regenerate from this summary.
+                      </p>
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="summaryTopic">Topic</Label>
+                          <Input id="summaryTopic" value={summary.topic} onChange={(e) => editSummary("topic", e.target.value)} />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="summaryAngle">Angle</Label>
+                          <Input id="summaryAngle" value={summary.angle} onChange={(e) => editSummary("angle", e.target.value)} />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="summaryAudience">Audience</Label>
+                          <Input id="summaryAudience" value={summary.audience} onChange={(e) => editSummary("audience", e.target.value)} />
+                        </div>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="summaryNotes">Notes</Label>
+                        <Textarea id="summaryNotes" value={summary.notes} onChange={(e) => editSummary("notes", e.target.value)} className="min-h-16" />
+                      </div>
+                      <Button
+                        type="button"
+                        variant="secondary"
+                        disabled={loading || !description.trim() || !Object.values(summary).some((v) => v.trim())}
+                        onClick={regenerateFromSummary}
+                      >
+                        Regenerate from summary
+                      </Button>
                     </CardContent>
                   </Card>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
-        )}
-
-        {titles.length === 0 && rawResponse !== null && (
-          <Card className="mt-8 border-neutral-200 dark:border-neutral-800">
-            <CardHeader>
-              <CardTitle className="text-lg">AI Response</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <pre className="whitespace-pre-wrap break-words text-sm sm:text-base">
-                {typeof rawResponse === "string"
-                  ? rawResponse
-                  : JSON.stringify(rawResponse, null, 2)}
-              </pre>
-            </CardContent>
-          </Card>
-        )}
-      </div>
-    </div>
+                )}
+
+                {titles.length > 0 && (
+                  <Card className="mt-8 border-neutral-200 dark:border-neutral-800">
+                    <CardHeader className="flex flex-row items-center justify-between">
+                      <CardTitle className="text-lg">Titles</CardTitle>
+                      <Button type="button" size="sm" variant="ghost" disabled={loading} onClick={clearTitles}>
+                        Clear
+                      </Button>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        {titles.map(({ title: t, status, style, scores, judge, duplicates }, i) => (
+                          <Card key={`${i}-${t}`} className="border-neutral-200 dark:border-neutral-800">
+                            <CardContent className="p-4">
+                              <div className="flex items-start justify-between gap-3">
+                                <div>
+                                  <Tooltip>
+                                    <TooltipTrigger asChild>
+                                      <p className="text-sm sm:text-base leading-relaxed cursor-help">
+                                        {t}
+                                      </p>
+                                    </TooltipTrigger>
+                                    <TooltipContent sideOffset={6}>
+                                      {t.length} chars{status !== "original" ? ` · ${status}` : ""}
+                                    </TooltipContent>
+                                  </Tooltip>
+                                  <TitleScores scores={scores} judge={judge} duplicates={duplicates} style={style} />
+                                  {judge?.rationale && (
+                                    <p className="mt-2 text-xs text-muted-foreground">{judge.rationale}</p>
+                                  )}
+                                  <div className="mt-2 flex gap-1">
+                                    <Button type="button" size="sm" variant="ghost" className="h-7 px-2 text-xs" disabled={loading} onClick={() => moreLike(t)}>
+                                      More like this
+                                    </Button>
+                                    <Button type="button" size="sm" variant="ghost" className="h-7 px-2 text-xs" disabled={loading} onClick={() => reject(t)}>
+                                      Reject
+                                    </Button>
+                                  </div>
+                                </div>
+
+                                <div className="flex shrink-0 flex-col gap-2">
+                                  <Tooltip>
+                                    <TooltipTrigger asChild>
+                                      <Button
+                                        type="button"
+                                        size="sm"
+                                        variant="secondary"
+                                        aria-label="Copy title"
+                                        onClick={() => copyTitleToClipboard(t, i)}
+                                      >
+                                        {copiedIndex === i ? "Copied" : "Copy"}
+                                      </Button>
+                                    </TooltipTrigger>
+                                    <TooltipContent sideOffset={6}>
+                                      {copiedIndex === i ? "Copied!" : "Copy title"}
+                                    </TooltipContent>
+                                  </Tooltip>
+                                  <Button type="button" size="sm" variant="outline" disabled={loading} onClick={() => setRefining(t)}>
+                                    Refine
+                                  </Button>
+                                </div>
+                              </div>
+                            </CardContent>
+                          </Card>
+                        ))}
+                      </div>
+                      {examples.length > 0 && (
+                        <div className="mt-6">
+                          <p className="text-sm font-medium">Examples used from {channelId}</p>
+                          <ul className="mt-2 space-y-1 text-xs text-muted-foreground">
+                            {examples.map((title) => (
+                              <li key={title}>{title}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+              </TabsContent>
+              <TabsContent value="rewrite">
+                <RewritePanel profiles={profiles} />
+              </TabsContent>
+            </Tabs>
+          </div>
+        </div>
+      </SidebarInset>
+      {refining && resultBrief && (
+        <RefineSheet key={refining} brief={resultBrief} title={refining} onClose={() => setRefining(null)} onRefine={setRefining} />
+      )}
+    </SidebarProvider>
   );
 }
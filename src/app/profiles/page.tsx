@@ -0,0 +1,283 @@
+"use client";
+
+import Link from "next/link";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { storedKeyHeaders } from "@/lib/api-keys/browser";
+import { responseErrorMessage } from "@/lib/fetch-error";
+import type { CapitalizationStyle, EmojiPolicy, VoiceProfile } from "@/lib/profiles/types";
+
+type Draft = {
+  name: string;
+  tone: string;
+  preferredWords: string;
+  bannedWords: string;
+  capitalization: CapitalizationStyle;
+  emoji: EmojiPolicy;
+  exampleTitles: string;
+};
+
+const EMPTY_DRAFT: Draft = {
+  name: "",
+  tone: "",
+  preferredWords: "",
+  bannedWords: "",
+  capitalization: "any",
+  emoji: "none",
+  exampleTitles: "",
+};
+
+const CAPITALIZATION_LABELS: Record<CapitalizationStyle, string> = {
+  any: "As written",
+  title: "Title Case",
+  sentence: "Sentence case",
+};
+
+const EMOJI_LABELS: Record<EmojiPolicy, string> = {
+  none: "No emoji",
+  one: "At most one",
+  any: "Any",
+};
+
+const splitList = (s: string, separator: string | RegExp) => s.split(separator).map((w) => w.trim()).filter(Boolean);
+
+function toDraft(profile: VoiceProfile): Draft {
+  return {
+    name: profile.name,
+    tone: profile.tone.join(", "),
+    preferredWords: profile.preferredWords.join(", "),
+    bannedWords: profile.bannedWords.join(", "),
+    capitalization: profile.capitalization,
+    emoji: profile.emoji,
+    exampleTitles: profile.exampleTitles.join("\n"),
+  };
+}
+
+function toBody(draft: Draft) {
+  return {
+    name: draft.name,
+    tone: splitList(draft.tone, ","),
+    preferredWords: splitList(draft.preferredWords, ","),
+    bannedWords: splitList(draft.bannedWords, ","),
+    capitalization: draft.capitalization,
+    emoji: draft.emoji,
+    exampleTitles: splitList(draft.exampleTitles, /\n/),
+  };
+}
+
+export default function ProfilesPage() {
+  const [profiles, setProfiles] = useState<VoiceProfile[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function loadProfiles() {
+    try {
+      const res = await fetch("/api/profiles", { headers: storedKeyHeaders() });
+      if (!res.ok) throw new Error(await responseErrorMessage(res));
+      setProfiles(((await res.json()) as { profiles: VoiceProfile[] }).profiles);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Unexpected error");
+    }
+  }
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  function edit(profile: VoiceProfile | null) {
+    setError(null);
+    setEditingId(profile?.id ?? null);
+    setDraft(profile ? toDraft(profile) : EMPTY_DRAFT);
+  }
+
+  function set<K extends keyof Draft>(key: K, value: Draft[K]) {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+  }
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setSaving(true);
+    try {
+      const res = await fetch(editingId ? `/api/profiles/${editingId}` : "/api/profiles", {
+        method: editingId ? "PATCH" : "POST",
+        headers: { ...storedKeyHeaders(), "Content-Type": "application/json" },
+        body: JSON.stringify(toBody(draft)),
+      });
+      if (!res.ok) throw new Error(await responseErrorMessage(res));
+      const { profile } = (await res.json()) as { profile: VoiceProfile };
+      edit(profile);
+      await loadProfiles();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Unexpected error");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function remove(profile: VoiceProfile) {
+    if (!window.confirm(`Delete the "${profile.name}" profile?`)) return;
+    setError(null);
+    try {
+      const res = await fetch(`/api/profiles/${profile.id}`, { method: "DELETE", headers: storedKeyHeaders() });
+      if (!res.ok) throw new Error(await responseErrorMessage(res));
+      if (editingId === profile.id) edit(null);
+      await loadProfiles();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Unexpected error");
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto max-w-4xl p-6 sm:p-10">
+        <div className="mb-8 flex items-center justify-between gap-3">
+          <h1 className="text-xl font-semibold">Brand voice profiles</h1>
+          <Link href="/" className="text-sm text-muted-foreground hover:underline">
+            Back to titles
+          </Link>
+        </div>
+
+        {profiles.length > 0 && (
+          <div className="mb-8 grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {profiles.map((profile) => (
+              <Card key={profile.id} className="border-neutral-200 dark:border-neutral-800">
+                <CardContent className="p-4">
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <p className="font-medium">{profile.name}</p>
+                      <div className="mt-2 flex flex-wrap gap-1.5">
+                        {profile.tone.map((t) => (
+                          <Badge key={t} variant="secondary">
+                            {t}
+                          </Badge>
+                        ))}
+                        <Badge variant="outline">{CAPITALIZATION_LABELS[profile.capitalization]}</Badge>
+                        <Badge variant="outline">{EMOJI_LABELS[profile.emoji]}</Badge>
+                      </div>
+                    </div>
+                    <div className="flex shrink-0 gap-2">
+                      <Button type="button" size="sm" variant="secondary" onClick={() => edit(profile)}>
+                        Edit
+                      </Button>
+                      <Button type="button" size="sm" variant="outline" onClick={() => remove(profile)}>
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <Card className="border-neutral-200 dark:border-neutral-800">
+          <CardHeader>
+            <CardTitle className="text-lg">{editingId ? `Edit ${draft.name || "profile"}` : "New profile"}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={onSubmit} className="space-y-5">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="name">Name</Label>
+                  <Input id="name" placeholder="e.g. Main channel" value={draft.name} onChange={(e) => set("name", e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="tone">Tone (comma-separated)</Label>
+                  <Input id="tone" placeholder="e.g. playful, confident, nerdy" value={draft.tone} onChange={(e) => set("tone", e.target.value)} />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="preferredWords">Preferred vocabulary (comma-separated)</Label>
+                  <Input
+                    id="preferredWords"
+                    placeholder="e.g. build, ship, TypeScript"
+                    value={draft.preferredWords}
+                    onChange={(e) => set("preferredWords", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="bannedWords">Banned words (comma-separated)</Label>
+                  <Input
+                    id="bannedWords"
+                    placeholder="e.g. hack, insane, guru"
+                    value={draft.bannedWords}
+                    onChange={(e) => set("bannedWords", e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="capitalization">Capitalization</Label>
+                  <Select value={draft.capitalization} onValueChange={(v) => set("capitalization", v as CapitalizationStyle)}>
+                    <SelectTrigger id="capitalization" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(CAPITALIZATION_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="emoji">Emoji</Label>
+                  <Select value={draft.emoji} onValueChange={(v) => set("emoji", v as EmojiPolicy)}>
+                    <SelectTrigger id="emoji" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(EMOJI_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="exampleTitles">Example titles (one per line)</Label>
+                <Textarea
+                  id="exampleTitles"
+                  placeholder="Published titles that sound like this channel"
+                  value={draft.exampleTitles}
+                  onChange={(e) => set("exampleTitles", e.target.value)}
+                  className="min-h-28"
+                />
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="submit" disabled={!draft.name.trim() || saving}>
+                  {saving ? "Saving..." : editingId ? "Save changes" : "Create profile"}
+                </Button>
+                {editingId && (
+                  <Button type="button" variant="outline" onClick={() => edit(null)}>
+                    New profile
+                  </Button>
+                )}
+              </div>
+
+              {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
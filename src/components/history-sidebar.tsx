@@ -0,0 +1,133 @@
+"use client";
+
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { MoreHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar";
+import type { HistoryEntry } from "@/lib/history/types";
+
+/**
+ * Saved generations with search, reopen, re-run and delete. The footer signs
+ * in with an API key to keep history on the server instead of this browser.
+ */
+export function HistorySidebar({
+  entries,
+  query,
+  onQueryChange,
+  onOpen,
+  onRerun,
+  onDelete,
+  signedIn,
+  onSignIn,
+  onSignOut,
+  error,
+}: {
+  entries: HistoryEntry[];
+  query: string;
+  onQueryChange: (query: string) => void;
+  onOpen: (entry: HistoryEntry) => void;
+  onRerun: (entry: HistoryEntry) => void;
+  onDelete: (entry: HistoryEntry) => void;
+  signedIn: boolean;
+  onSignIn: (apiKey: string) => void;
+  onSignOut: () => void;
+  error?: string | null;
+}) {
+  const [apiKey, setApiKey] = useState("");
+
+  function signIn(e: React.FormEvent) {
+    e.preventDefault();
+    onSignIn(apiKey.trim());
+    setApiKey("");
+  }
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <p className="px-2 pt-1 text-sm font-semibold">History</p>
+        <SidebarInput placeholder="Search briefs and titles" value={query} onChange={(e) => onQueryChange(e.target.value)} />
+      </SidebarHeader>
+
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupContent>
+            {entries.length === 0 ? (
+              <p className="px-2 text-xs text-muted-foreground">{query.trim() ? "No matches." : "Generated titles are saved here."}</p>
+            ) : (
+              <SidebarMenu>
+                {entries.map((entry) => (
+                  <SidebarMenuItem key={entry.id}>
+                    <SidebarMenuButton className="h-auto flex-col items-start gap-0.5 py-2" onClick={() => onOpen(entry)}>
+                      <span className="w-full truncate">{entry.input.description || entry.items[0]?.title}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {entry.items.length} titles · {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+                      </span>
+                    </SidebarMenuButton>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <SidebarMenuAction showOnHover aria-label="History entry actions">
+                          <MoreHorizontal />
+                        </SidebarMenuAction>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent side="right" align="start">
+                        <DropdownMenuItem onClick={() => onOpen(entry)}>Reopen</DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => onRerun(entry)}>Re-run</DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem variant="destructive" onClick={() => onDelete(entry)}>
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            )}
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+
+      <SidebarFooter>
+        {error && <p className="px-2 text-xs text-red-600 dark:text-red-400">{error}</p>}
+        {signedIn ? (
+          <div className="flex items-center justify-between gap-2 px-2">
+            <span className="text-xs text-muted-foreground">Saved to your account. The key is forgotten when you sign out or close this tab.</span>
+            <Button type="button" size="sm" variant="outline" onClick={onSignOut}>
+              Sign out
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={signIn} className="space-y-2 px-2">
+            <p className="text-xs text-muted-foreground">Saved in this browser. Sign in with an API key to keep history on the server.</p>
+            <div className="flex gap-2">
+              <Input type="password" placeholder="API key" value={apiKey} onChange={(e) => setApiKey(e.target.value)} className="h-8" />
+              <Button type="submit" size="sm" disabled={!apiKey.trim()}>
+                Sign in
+              </Button>
+            </div>
+          </form>
+        )}
+      </SidebarFooter>
+    </Sidebar>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { TitleScores } from "@/components/title-scores";
+import { responseErrorMessage } from "@/lib/fetch-error";
+import type { RefineTurn, TitleRefineResult } from "@/lib/titles/refine";
+import type { TitleInput, TitleItem } from "@/lib/titles/types";
+
+const SUGGESTIONS = ["Make it punchier", "Shorter", "Add a number", "Make it a question"];
+
+/** What was shown to the user; the request only needs the variant strings. */
+type ChatTurn = { role: "user"; text: string } | { role: "assistant"; reply: string; items: TitleItem[] };
+
+function toRequestTurn(turn: ChatTurn): RefineTurn {
+  return turn.role === "user" ? turn : { role: "assistant", reply: turn.reply, titles: turn.items.map((i) => i.title) };
+}
+
+/**
+ * Conversation panel for iterating on one title. Each instruction is sent
+ * with the whole conversation so far; "Refine this" starts over on a variant.
+ * Remount it (via `key`) to start a new conversation.
+ */
+export function RefineSheet({
+  brief,
+  title,
+  onClose,
+  onRefine,
+}: {
+  brief: TitleInput;
+  title: string;
+  onClose: () => void;
+  onRefine: (title: string) => void;
+}) {
+  const [turns, setTurns] = useState<ChatTurn[]>([]);
+  const [instruction, setInstruction] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  async function send(text: string) {
+    if (!text.trim() || loading) return;
+    const next: ChatTurn[] = [...turns, { role: "user", text: text.trim() }];
+    setTurns(next);
+    setInstruction("");
+    setError(null);
+    setLoading(true);
+    try {
+      const res = await fetch("/api/suggest/refine", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...brief, title, turns: next.map(toRequestTurn) }),
+      });
+      if (!res.ok) throw new Error(await responseErrorMessage(res));
+      const result = (await res.json()) as TitleRefineResult;
+      setTurns([...next, { role: "assistant", reply: result.reply, items: result.items }]);
+    } catch (err: unknown) {
+      // Drop the unanswered instruction so the conversation still alternates
+      setTurns(turns);
+      setInstruction(text);
+      setError(err instanceof Error ? err.message : "Unexpected error");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function copy(text: string) {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(text);
+      setTimeout(() => setCopied(null), 1500);
+    } catch (e) {
+      console.error("Copy failed", e);
+    }
+  }
+
+  return (
+    <Sheet open onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Refine title</SheetTitle>
+          <SheetDescription>{title}</SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="min-h-0 flex-1 px-4">
+          <div className="space-y-4 pb-4">
+            {turns.length === 0 && (
+              <p className="text-sm text-muted-foreground">Tell the model what to change, e.g. &quot;make it punchier&quot; or &quot;mention 2025&quot;.</p>
+            )}
+            {turns.map((turn, i) =>
+              turn.role === "user" ? (
+                <div key={i} className="ml-8 rounded-lg bg-muted px-3 py-2 text-sm">
+                  {turn.text}
+                </div>
+              ) : (
+                <div key={i} className="space-y-2">
+                  {turn.reply && <p className="text-sm text-muted-foreground">{turn.reply}</p>}
+                  {turn.items.map((item) => (
+                    <div key={item.title} className="rounded-lg border border-neutral-200 dark:border-neutral-800 p-3">
+                      <p className="text-sm">{item.title}</p>
+                      <TitleScores scores={item.scores} />
+                      <div className="mt-2 flex gap-2">
+                        <Button type="button" size="sm" variant="secondary" onClick={() => copy(item.title)}>
+                          {copied === item.title ? "Copied" : "Copy"}
+                        </Button>
+                        <Button type="button" size="sm" variant="outline" onClick={() => onRefine(item.title)}>
+                          Refine this
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ),
+            )}
+            {loading && <p className="text-sm text-muted-foreground">Thinking...</p>}
+          </div>
+        </ScrollArea>
+
+        <SheetFooter>
+          <div className="flex flex-wrap gap-1.5">
+            {SUGGESTIONS.map((s) => (
+              <Button key={s} type="button" size="sm" variant="outline" disabled={loading} onClick={() => send(s)}>
+                {s}
+              </Button>
+            ))}
+          </div>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              send(instruction);
+            }}
+            className="flex gap-2"
+          >
+            <Textarea
+              placeholder="What should change?"
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && !e.shiftKey) {
+                  e.preventDefault();
+                  send(instruction);
+                }
+              }}
+              className="min-h-10"
+            />
+            <Button type="submit" disabled={!instruction.trim() || loading}>
+              Send
+            </Button>
+          </form>
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { TitleScores } from "@/components/title-scores";
+import { responseErrorMessage } from "@/lib/fetch-error";
+import { STYLE_GUIDES, TITLE_STYLES } from "@/lib/titles/styles";
+import type { VoiceProfile } from "@/lib/profiles/types";
+import type { TitleRewriteResult } from "@/lib/titles/rewrite";
+import type { TitleStyle } from "@/lib/titles/types";
+
+/** The Home page's "Rewrite my title" tab: improves a draft title and explains each variant. */
+export function RewritePanel({ profiles }: { profiles: VoiceProfile[] }) {
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [keywords, setKeywords] = useState("");
+  const [maxLength, setMaxLength] = useState("45");
+  const [rewriteLong, setRewriteLong] = useState(false);
+  const [styles, setStyles] = useState<TitleStyle[]>([]);
+  const [profileId, setProfileId] = useState("none");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<TitleRewriteResult | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  async function copy(text: string) {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(text);
+      setTimeout(() => setCopied(null), 1500);
+    } catch (e) {
+      console.error("Copy failed", e);
+    }
+  }
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+    try {
+      const res = await fetch("/api/suggest/rewrite", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          title,
+          description: description || undefined,
+          keywords: keywords
+            .split(",")
+            .map((k) => k.trim())
+            .filter(Boolean),
+          maxLength: maxLength ? Number(maxLength) : undefined,
+          overLength: rewriteLong ? "rewrite" : undefined,
+          styles: styles.length ? styles : undefined,
+          profileId: profileId === "none" ? undefined : profileId,
+        }),
+      });
+      if (!res.ok) throw new Error(await responseErrorMessage(res));
+      setResult((await res.json()) as TitleRewriteResult);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Unexpected error");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <>
+      <Card className="border-neutral-200 dark:border-neutral-800">
+        <CardHeader>
+          <CardTitle className="text-lg">Improve an existing title</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={onSubmit} className="space-y-5">
+            <div className="space-y-2">
+              <Label htmlFor="draftTitle">Your title</Label>
+              <Input id="draftTitle" placeholder="The title you want to improve" value={title} onChange={(e) => setTitle(e.target.value)} />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rewriteDescription">Description (optional)</Label>
+              <Textarea
+                id="rewriteDescription"
+                placeholder="What is the video about? Helps the model keep the titles accurate."
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="min-h-20"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="rewriteKeywords">Keywords (comma-separated)</Label>
+                <Input id="rewriteKeywords" placeholder="e.g. react, hooks" value={keywords} onChange={(e) => setKeywords(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rewriteMaxLength">Max characters</Label>
+                <Input
+                  id="rewriteMaxLength"
+                  type="number"
+                  min={15}
+                  max={100}
+                  placeholder="45"
+                  value={maxLength}
+                  onChange={(e) => setMaxLength(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rewriteProfile">Brand voice</Label>
+                <Select value={profileId} onValueChange={setProfileId}>
+                  <SelectTrigger id="rewriteProfile" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Default voice</SelectItem>
+                    {profiles.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>
+                        {p.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-end gap-2 pb-2">
+                <Switch id="rewriteRewriteLong" checked={rewriteLong} onCheckedChange={setRewriteLong} />
+                <Label htmlFor="rewriteRewriteLong">Rewrite long titles</Label>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rewriteStyles">Styles</Label>
+              <ToggleGroup
+                id="rewriteStyles"
+                type="multiple"
+                variant="outline"
+                size="sm"
+                value={styles}
+                onValueChange={(v) => setStyles(v as TitleStyle[])}
+                className="flex-wrap"
+              >
+                {TITLE_STYLES.map((s) => (
+                  <ToggleGroupItem key={s} value={s} className="px-3">
+                    {STYLE_GUIDES[s].label}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+              <p className="text-xs text-muted-foreground">Leave empty to keep the draft&apos;s style free.</p>
+            </div>
+
+            <Button type="submit" disabled={!title.trim() || loading}>
+              {loading ? "Rewriting..." : "Rewrite title"}
+            </Button>
+
+            {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+          </form>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <Card className="mt-8 border-neutral-200 dark:border-neutral-800">
+          <CardHeader>
+            <CardTitle className="text-lg">Improved titles</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="rounded-lg bg-muted p-4">
+              <p className="text-xs text-muted-foreground">Your title</p>
+              <p className="text-sm sm:text-base">{result.original.title}</p>
+              <TitleScores scores={result.original.scores} />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {result.items.map(({ title: t, explanation, scores, style }) => (
+                <Card key={t} className="border-neutral-200 dark:border-neutral-800">
+                  <CardContent className="p-4">
+                    <div className="flex items-start justify-between gap-3">
+                      <div>
+                        <p className="text-sm sm:text-base leading-relaxed">{t}</p>
+                        {explanation && <p className="mt-1 text-xs text-muted-foreground">{explanation}</p>}
+                        <TitleScores scores={scores} style={style} />
+                      </div>
+                      <Button type="button" size="sm" variant="secondary" className="shrink-0" onClick={() => copy(t)}>
+                        {copied === t ? "Copied" : "Copy"}
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,74 @@
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { STYLE_GUIDES } from "@/lib/titles/styles";
+import type { TitleScores as Scores, TitleJudgement, TitleStyle } from "@/lib/titles/types";
+
+const LABELS: { key: Exclude<keyof Scores, "overall" | "clickbaitPenalty">; label: string }[] = [
+  { key: "keywordCoverage", label: "Keywords" },
+  { key: "lengthFit", label: "Length" },
+  { key: "frontLoading", label: "Front-loaded" },
+  { key: "readability", label: "Readability" },
+];
+
+function overallVariant(score: number) {
+  if (score >= 75) return "default";
+  if (score >= 50) return "secondary";
+  return "outline";
+}
+
+/**
+ * Style and overall score plus one badge per component; hover the overall badge for the
+ * breakdown and the "similar" badge for the near-duplicates collapsed into the title.
+ */
+export function TitleScores({
+  scores,
+  judge,
+  duplicates,
+  style,
+}: {
+  scores: Scores;
+  judge?: TitleJudgement;
+  duplicates?: string[];
+  style?: TitleStyle;
+}) {
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-1.5">
+      {style && <Badge variant="secondary">{STYLE_GUIDES[style].label}</Badge>}
+      {judge && <Badge>Judge {judge.score}/10</Badge>}
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Badge variant={overallVariant(scores.overall)} className="cursor-help">
+            Score {scores.overall}
+          </Badge>
+        </TooltipTrigger>
+        <TooltipContent sideOffset={6}>
+          Weighted keywords, length, front-loading and readability, minus half the hype penalty
+        </TooltipContent>
+      </Tooltip>
+      {LABELS.map(({ key, label }) =>
+        scores[key] === null ? null : (
+          <Badge key={key} variant="outline" className="text-muted-foreground">
+            {label} {scores[key]}
+          </Badge>
+        ),
+      )}
+      {scores.clickbaitPenalty > 0 && <Badge variant="destructive">Hype -{scores.clickbaitPenalty}</Badge>}
+      {duplicates && duplicates.length > 0 && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Badge variant="outline" className="cursor-help text-muted-foreground">
+              +{duplicates.length} similar
+            </Badge>
+          </TooltipTrigger>
+          <TooltipContent sideOffset={6}>
+            <ul>
+              {duplicates.map((d) => (
+                <li key={d}>{d}</li>
+              ))}
+            </ul>
+          </TooltipContent>
+        </Tooltip>
+      )}
+    </div>
+  );
+}
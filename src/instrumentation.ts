@@ -0,0 +1,7 @@
+// Starts the background job worker when the Node.js server boots
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startJobWorker } = await import("@/lib/jobs/worker");
+    startJobWorker();
+  }
+}
@@ -0,0 +1,114 @@
+import { timingSafeEqual } from "node:crypto";
+import { hashApiKey } from "./keys";
+import { getApiKeyStore } from "./store";
+import type { ApiKeyRecord, ApiKeyScope } from "./types";
+
+export type AuthMode = "off" | "optional" | "required";
+
+/** `PUBLIC_API_AUTH`: `off` (default), `optional` (keys checked when sent) or `required`. */
+export function authMode(): AuthMode {
+  const mode = process.env.PUBLIC_API_AUTH;
+  return mode === "optional" || mode === "required" ? mode : "off";
+}
+
+/** A 401/403/429 answer. Routes render it as `{ error }` with `headers`. */
+export class ApiAuthError extends Error {
+  readonly status: number;
+  readonly headers: Record<string, string>;
+
+  constructor(message: string, status: number, headers: Record<string, string> = {}) {
+    super(message);
+    this.name = "ApiAuthError";
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+export function readBearerToken(req: Request): string | null {
+  const header = req.headers.get("authorization") || "";
+  const match = /^Bearer\s+(.+)$/i.exec(header.trim());
+  return match ? match[1].trim() : null;
+}
+
+function secondsUntilReset(exceeded: "daily" | "monthly", now: Date): number {
+  const reset = exceeded === "daily"
+    ? Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)
+    : Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1);
+  return Math.max(1, Math.ceil((reset - now.getTime()) / 1000));
+}
+
+/**
+ * Resolves the request's API key and checks its scope whatever the auth mode,
+ * for features that need to know who is calling. Throws `ApiAuthError` when
+ * the key is missing, unknown, revoked or lacks the scope.
+ */
+export async function requireApiKey(req: Request, scope: ApiKeyScope): Promise<ApiKeyRecord> {
+  const token = readBearerToken(req);
+  if (!token) throw new ApiAuthError("Missing API key", 401, { "WWW-Authenticate": "Bearer" });
+
+  const record = await getApiKeyStore().findByHash(hashApiKey(token));
+  if (!record || record.revokedAt) {
+    throw new ApiAuthError("Invalid API key", 401, { "WWW-Authenticate": 'Bearer error="invalid_token"' });
+  }
+  if (!record.scopes.includes(scope)) {
+    throw new ApiAuthError(`API key lacks the "${scope}" scope`, 403);
+  }
+  return record;
+}
+
+/**
+ * Resolves the request's API key and checks its scope without counting it.
+ * Returns `null` for anonymous requests when auth is not required; throws
+ * `ApiAuthError` otherwise.
+ */
+export async function authenticateRequest(req: Request, scope: ApiKeyScope): Promise<ApiKeyRecord | null> {
+  const mode = authMode();
+  if (mode === "off") return null;
+  if (mode === "optional" && !readBearerToken(req)) return null;
+  return requireApiKey(req, scope);
+}
+
+/**
+ * Like `authenticateRequest`, then counts the request against the key's
+ * quota (`units` requests; batches pass their item count).
+ */
+export async function authorizeRequest(req: Request, scope: ApiKeyScope, units = 1): Promise<ApiKeyRecord | null> {
+  const record = await authenticateRequest(req, scope);
+  if (!record) return null;
+
+  const now = new Date();
+  const decision = await getApiKeyStore().consume(record.id, record.quota, now, units);
+  if (!decision.allowed) {
+    throw new ApiAuthError(`API key ${decision.exceeded} quota exceeded`, 429, {
+      "Retry-After": String(secondsUntilReset(decision.exceeded, now)),
+    });
+  }
+  return record;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Guards the key management routes: accepts `API_ADMIN_TOKEN` (to bootstrap
+ * the first key) or any key holding the `keys:admin` scope. Admin calls do
+ * not count against quotas.
+ */
+export async function authorizeAdmin(req: Request): Promise<void> {
+  const token = readBearerToken(req);
+  if (!token) throw new ApiAuthError("Missing API key", 401, { "WWW-Authenticate": "Bearer" });
+
+  const adminToken = process.env.API_ADMIN_TOKEN;
+  if (adminToken && safeEqual(token, adminToken)) return;
+
+  const record = await getApiKeyStore().findByHash(hashApiKey(token));
+  if (!record || record.revokedAt) {
+    throw new ApiAuthError("Invalid API key", 401, { "WWW-Authenticate": 'Bearer error="invalid_token"' });
+  }
+  if (!record.scopes.includes("keys:admin")) {
+    throw new ApiAuthError('API key lacks the "keys:admin" scope', 403);
+  }
+}
@@ -0,0 +1,28 @@
+/** sessionStorage key of the API key the Home page signs in with. */
+export const API_KEY_STORAGE_KEY = "titles.apiKey";
+
+/**
+ * The signed-in key. It lives in sessionStorage, so it is forgotten when the
+ * tab closes instead of staying on disk; scripts on the page can still read
+ * it while the tab is open.
+ */
+export function loadApiKey(): string | null {
+  // Earlier versions kept the key in localStorage; drop that copy
+  window.localStorage.removeItem(API_KEY_STORAGE_KEY);
+  return window.sessionStorage.getItem(API_KEY_STORAGE_KEY);
+}
+
+export function saveApiKey(apiKey: string): void {
+  window.sessionStorage.setItem(API_KEY_STORAGE_KEY, apiKey);
+}
+
+export function clearApiKey(): void {
+  window.sessionStorage.removeItem(API_KEY_STORAGE_KEY);
+  window.localStorage.removeItem(API_KEY_STORAGE_KEY);
+}
+
+/** `Authorization` header for the signed-in key, for the app pages' own API calls; empty when signed out. */
+export function storedKeyHeaders(): Record<string, string> {
+  const apiKey = loadApiKey();
+  return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+}
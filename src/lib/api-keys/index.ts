@@ -0,0 +1,5 @@
+export { ApiAuthError, authenticateRequest, authMode, authorizeAdmin, authorizeRequest, requireApiKey } from "./auth";
+export { createApiKey, hashApiKey, parseApiKeyFields, publicKeyRecord } from "./keys";
+export { FileApiKeyStore, getApiKeyStore, MemoryApiKeyStore, setApiKeyStore } from "./store";
+export { API_KEY_SCOPES } from "./types";
+export type * from "./types";
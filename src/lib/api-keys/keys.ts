@@ -0,0 +1,64 @@
+import { createHash, createHmac, randomBytes, randomUUID } from "node:crypto";
+import { z } from "zod";
+import { parseWithSchema } from "@/lib/validation";
+import { getApiKeyStore } from "./store";
+import { API_KEY_SCOPES } from "./types";
+import type { ApiKeyQuota, ApiKeyRecord, ApiKeyScope } from "./types";
+
+const KEY_PREFIX = "aipye_";
+
+export function hashApiKey(key: string): string {
+  const pepper = process.env.API_KEY_PEPPER;
+  return pepper ? createHmac("sha256", pepper).update(key).digest("hex") : createHash("sha256").update(key).digest("hex");
+}
+
+export function generateApiKey(): string {
+  return `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+}
+
+export type CreateApiKeyInput = {
+  name: string;
+  scopes: ApiKeyScope[];
+  quota?: Partial<ApiKeyQuota>;
+};
+
+/** Creates and stores a key. The plaintext `key` is returned only here and never persisted. */
+export async function createApiKey(input: CreateApiKeyInput): Promise<{ key: string; record: ApiKeyRecord }> {
+  const key = generateApiKey();
+  const record: ApiKeyRecord = {
+    id: randomUUID(),
+    name: input.name,
+    prefix: key.slice(0, KEY_PREFIX.length + 6),
+    hash: hashApiKey(key),
+    scopes: input.scopes,
+    quota: { daily: input.quota?.daily ?? null, monthly: input.quota?.monthly ?? null },
+    createdAt: new Date().toISOString(),
+    revokedAt: null,
+  };
+  await getApiKeyStore().insert(record);
+  return { key, record };
+}
+
+/** The record without its hash, for API responses. */
+export function publicKeyRecord(record: ApiKeyRecord) {
+  const { id, name, prefix, scopes, quota, createdAt, revokedAt } = record;
+  return { id, name, prefix, scopes, quota, createdAt, revokedAt };
+}
+
+const limitSchema = z.number().int().min(0).nullable().optional();
+
+export const apiKeyFieldsSchema = z.object({
+  name: z.string().trim().min(1, "name must not be empty").max(100).optional(),
+  scopes: z
+    .array(z.enum(API_KEY_SCOPES))
+    .optional()
+    .transform((scopes) => (scopes ? Array.from(new Set(scopes)) : undefined)),
+  quota: z.object({ daily: limitSchema, monthly: limitSchema }).optional(),
+});
+
+export type ApiKeyFields = z.infer<typeof apiKeyFieldsSchema>;
+
+/** Validates key fields from an admin request body, throwing `RequestValidationError`. */
+export function parseApiKeyFields(body: unknown): ApiKeyFields {
+  return parseWithSchema(apiKeyFieldsSchema, body);
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { MemoryApiKeyStore } from "./store";
+
+const quota = { daily: 2, monthly: 3 };
+
+describe("quota decisions", () => {
+  it("counts requests until the daily quota is used", async () => {
+    const store = new MemoryApiKeyStore();
+    const now = new Date("2025-03-10T12:00:00Z");
+    expect((await store.consume("k", quota, now)).allowed).toBe(true);
+    expect((await store.consume("k", quota, now)).allowed).toBe(true);
+    expect(await store.consume("k", quota, now)).toMatchObject({ allowed: false, exceeded: "daily" });
+    expect(await store.getUsage("k", now)).toEqual({ day: "2025-03-10", dayCount: 2, month: "2025-03", monthCount: 2 });
+  });
+
+  it("resets the daily count on a new UTC day but keeps the month", async () => {
+    const store = new MemoryApiKeyStore();
+    await store.consume("k", quota, new Date("2025-03-10T23:59:00Z"), 2);
+    expect((await store.consume("k", quota, new Date("2025-03-11T00:01:00Z"))).allowed).toBe(true);
+    expect(await store.consume("k", quota, new Date("2025-03-11T00:02:00Z"))).toMatchObject({ allowed: false, exceeded: "monthly" });
+  });
+
+  it("charges batches their unit count and rejects them whole", async () => {
+    const store = new MemoryApiKeyStore();
+    const now = new Date("2025-03-10T12:00:00Z");
+    expect(await store.consume("k", quota, now, 3)).toMatchObject({ allowed: false, exceeded: "daily" });
+    expect((await store.getUsage("k", now)).dayCount).toBe(0);
+  });
+
+  it("treats null limits as unlimited", async () => {
+    const store = new MemoryApiKeyStore();
+    const now = new Date("2025-03-10T12:00:00Z");
+    expect((await store.consume("k", { daily: null, monthly: null }, now, 1000)).allowed).toBe(true);
+  });
+});
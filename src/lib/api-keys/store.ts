@@ -0,0 +1,129 @@
+import { dataPath, JsonFile } from "@/lib/storage/json-file";
+import type { ApiKeyQuota, ApiKeyRecord, ApiKeyStore, ApiKeyUsage, QuotaDecision } from "./types";
+
+type KeysDocument = {
+  keys: ApiKeyRecord[];
+  usage: Record<string, ApiKeyUsage>;
+};
+
+export function utcDay(now: Date): string {
+  return now.toISOString().slice(0, 10);
+}
+
+export function utcMonth(now: Date): string {
+  return now.toISOString().slice(0, 7);
+}
+
+/** Usage for the current day/month, with counters reset when the period rolled over. */
+function currentUsage(prev: ApiKeyUsage | undefined, now: Date): ApiKeyUsage {
+  const day = utcDay(now);
+  const month = utcMonth(now);
+  return {
+    day,
+    dayCount: prev?.day === day ? prev.dayCount : 0,
+    month,
+    monthCount: prev?.month === month ? prev.monthCount : 0,
+  };
+}
+
+function decide(doc: KeysDocument, id: string, quota: ApiKeyQuota, now: Date, units: number): QuotaDecision {
+  const usage = currentUsage(doc.usage[id], now);
+  if (quota.daily !== null && usage.dayCount + units > quota.daily) return { allowed: false, usage, exceeded: "daily" };
+  if (quota.monthly !== null && usage.monthCount + units > quota.monthly) return { allowed: false, usage, exceeded: "monthly" };
+  usage.dayCount += units;
+  usage.monthCount += units;
+  doc.usage[id] = usage;
+  return { allowed: true, usage };
+}
+
+function patchKey(doc: KeysDocument, id: string, patch: Partial<ApiKeyRecord>): ApiKeyRecord | null {
+  const index = doc.keys.findIndex((k) => k.id === id);
+  if (index === -1) return null;
+  doc.keys[index] = { ...doc.keys[index], ...patch, id };
+  return doc.keys[index];
+}
+
+/** Keys and usage counters in one JSON file (`API_KEYS_FILE`, default `.data/api-keys.json`). */
+export class FileApiKeyStore implements ApiKeyStore {
+  private readonly file: JsonFile<KeysDocument>;
+
+  constructor(filePath = process.env.API_KEYS_FILE || dataPath("api-keys.json")) {
+    this.file = new JsonFile<KeysDocument>(filePath, () => ({ keys: [], usage: {} }));
+  }
+
+  async insert(record: ApiKeyRecord) {
+    await this.file.update((doc) => {
+      doc.keys.push(record);
+    });
+  }
+
+  async get(id: string) {
+    return (await this.file.read()).keys.find((k) => k.id === id) ?? null;
+  }
+
+  async findByHash(hash: string) {
+    return (await this.file.read()).keys.find((k) => k.hash === hash) ?? null;
+  }
+
+  async list() {
+    return (await this.file.read()).keys;
+  }
+
+  update(id: string, patch: Partial<ApiKeyRecord>) {
+    return this.file.update((doc) => patchKey(doc, id, patch));
+  }
+
+  async getUsage(id: string, now = new Date()) {
+    return currentUsage((await this.file.read()).usage[id], now);
+  }
+
+  consume(id: string, quota: ApiKeyQuota, now = new Date(), units = 1) {
+    return this.file.update((doc) => decide(doc, id, quota, now, units));
+  }
+}
+
+/** Process-local store, for tests and throwaway deployments. */
+export class MemoryApiKeyStore implements ApiKeyStore {
+  private readonly doc: KeysDocument = { keys: [], usage: {} };
+
+  async insert(record: ApiKeyRecord) {
+    this.doc.keys.push(record);
+  }
+
+  async get(id: string) {
+    return this.doc.keys.find((k) => k.id === id) ?? null;
+  }
+
+  async findByHash(hash: string) {
+    return this.doc.keys.find((k) => k.hash === hash) ?? null;
+  }
+
+  async list() {
+    return [...this.doc.keys];
+  }
+
+  async update(id: string, patch: Partial<ApiKeyRecord>) {
+    return patchKey(this.doc, id, patch);
+  }
+
+  async getUsage(id: string, now = new Date()) {
+    return currentUsage(this.doc.usage[id], now);
+  }
+
+  async consume(id: string, quota: ApiKeyQuota, now = new Date(), units = 1) {
+    return decide(this.doc, id, quota, now, units);
+  }
+}
+
+let store: ApiKeyStore | null = null;
+
+/** The configured store: `API_KEYS_STORE=memory` or the file store (default). */
+export function getApiKeyStore(): ApiKeyStore {
+  if (!store) store = process.env.API_KEYS_STORE === "memory" ? new MemoryApiKeyStore() : new FileApiKeyStore();
+  return store;
+}
+
+/** Swaps in another backend (e.g. a database-backed store). */
+export function setApiKeyStore(next: ApiKeyStore) {
+  store = next;
+}
@@ -0,0 +1,46 @@
+export const API_KEY_SCOPES = ["titles:generate", "keys:admin"] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/** `null` means unlimited. */
+export type ApiKeyQuota = {
+  daily: number | null;
+  monthly: number | null;
+};
+
+export type ApiKeyRecord = {
+  id: string;
+  name: string;
+  /** First characters of the key, safe to display for identification. */
+  prefix: string;
+  /** SHA-256 (or HMAC-SHA-256 with `API_KEY_PEPPER`) of the full key. The key itself is never stored. */
+  hash: string;
+  scopes: ApiKeyScope[];
+  quota: ApiKeyQuota;
+  createdAt: string;
+  revokedAt: string | null;
+};
+
+export type ApiKeyUsage = {
+  /** UTC day (`YYYY-MM-DD`) the `dayCount` belongs to. */
+  day: string;
+  dayCount: number;
+  /** UTC month (`YYYY-MM`) the `monthCount` belongs to. */
+  month: string;
+  monthCount: number;
+};
+
+export type QuotaDecision =
+  | { allowed: true; usage: ApiKeyUsage }
+  | { allowed: false; usage: ApiKeyUsage; exceeded: "daily" | "monthly" };
+
+export interface ApiKeyStore {
+  insert(record: ApiKeyRecord): Promise<void>;
+  get(id: string): Promise<ApiKeyRecord | null>;
+  findByHash(hash: string): Promise<ApiKeyRecord | null>;
+  list(): Promise<ApiKeyRecord[]>;
+  update(id: string, patch: Partial<Pick<ApiKeyRecord, "name" | "scopes" | "quota" | "revokedAt">>): Promise<ApiKeyRecord | null>;
+  getUsage(id: string, now?: Date): Promise<ApiKeyUsage>;
+  /** Atomically checks the quota and, when allowed, counts `units` requests (default 1). */
+  consume(id: string, quota: ApiKeyQuota, now?: Date, units?: number): Promise<QuotaDecision>;
+}
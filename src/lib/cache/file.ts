@@ -0,0 +1,35 @@
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { CacheEntry, CacheStore } from "./types";
+
+/** One JSON file per key. Keys must be filesystem-safe (the title cache uses hex digests). */
+export class FileCacheStore<T> implements CacheStore<T> {
+  constructor(private readonly dir: string) {}
+
+  private file(key: string) {
+    return path.join(this.dir, `${key}.json`);
+  }
+
+  async get(key: string, now = Date.now()) {
+    try {
+      const entry = JSON.parse(await readFile(this.file(key), "utf8")) as CacheEntry<T>;
+      if (entry.expiresAt > now) return entry;
+      await this.delete(key);
+      return null;
+    } catch {
+      return null;
+    }
+  }
+
+  async set(key: string, value: T, ttlMs: number, now = Date.now()) {
+    await mkdir(this.dir, { recursive: true });
+    const entry: CacheEntry<T> = { value, storedAt: now, expiresAt: now + ttlMs };
+    const tmp = `${this.file(key)}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(entry), "utf8");
+    await rename(tmp, this.file(key));
+  }
+
+  async delete(key: string) {
+    await rm(this.file(key), { force: true });
+  }
+}
@@ -0,0 +1,4 @@
+export { FileCacheStore } from "./file";
+export { LruCacheStore } from "./memory";
+export { RedisCacheStore } from "./redis";
+export type * from "./types";
@@ -0,0 +1,32 @@
+import type { CacheEntry, CacheStore } from "./types";
+
+/** Least-recently-used cache in process memory, bounded by entry count. */
+export class LruCacheStore<T> implements CacheStore<T> {
+  // Map iteration order is insertion order, so re-inserting on read keeps the oldest entry first
+  private readonly entries = new Map<string, CacheEntry<T>>();
+
+  constructor(private readonly maxEntries = 500) {}
+
+  async get(key: string, now = Date.now()) {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    this.entries.delete(key);
+    if (entry.expiresAt <= now) return null;
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, value: T, ttlMs: number, now = Date.now()) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, storedAt: now, expiresAt: now + ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+}
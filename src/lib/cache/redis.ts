@@ -0,0 +1,26 @@
+import type { RedisClient } from "@/lib/redis";
+import type { CacheEntry, CacheStore } from "./types";
+
+/** Entries as JSON strings with a Redis-side expiry, shared by every instance. */
+export class RedisCacheStore<T> implements CacheStore<T> {
+  constructor(
+    private readonly client: Pick<RedisClient, "command">,
+    private readonly prefix = "cache",
+  ) {}
+
+  async get(key: string, now = Date.now()) {
+    const raw = await this.client.command(["GET", `${this.prefix}:${key}`]);
+    if (typeof raw !== "string") return null;
+    const entry = JSON.parse(raw) as CacheEntry<T>;
+    return entry.expiresAt > now ? entry : null;
+  }
+
+  async set(key: string, value: T, ttlMs: number, now = Date.now()) {
+    const entry: CacheEntry<T> = { value, storedAt: now, expiresAt: now + ttlMs };
+    await this.client.command(["SET", `${this.prefix}:${key}`, JSON.stringify(entry), "PX", ttlMs]);
+  }
+
+  async delete(key: string) {
+    await this.client.command(["DEL", `${this.prefix}:${key}`]);
+  }
+}
@@ -0,0 +1,12 @@
+export type CacheEntry<T> = {
+  value: T;
+  /** Epoch milliseconds. */
+  storedAt: number;
+  expiresAt: number;
+};
+
+export interface CacheStore<T> {
+  get(key: string, now?: number): Promise<CacheEntry<T> | null>;
+  set(key: string, value: T, ttlMs: number, now?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,76 @@
+import { z } from "zod";
+import { parseWithSchema, RequestValidationError } from "@/lib/validation";
+import type { Channel, PastTitle } from "./types";
+
+export const CHANNEL_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+export const CHANNEL_UPLOAD_MAX_TITLES = 2000;
+export const CHANNEL_TEXT_MAX_LENGTH = 500_000;
+
+/** Throws a 400 unless `id` is a lowercase slug (letters, digits, `-`, `_`; up to 64 characters). */
+export function parseChannelId(id: string): string {
+  if (!CHANNEL_ID_PATTERN.test(id)) {
+    throw new RequestValidationError([{ path: "id", message: "channel id must be a lowercase slug (a-z, 0-9, - and _)" }]);
+  }
+  return id;
+}
+
+/** "12,345", "12.3K" or "1.2M" as a number; `null` when blank or unreadable. */
+export function parseCount(value: string | undefined): number | null {
+  const match = /^([\d.,]+)\s*([kmb])?$/i.exec((value ?? "").trim());
+  if (!match) return null;
+  const n = Number(match[1].replace(/,/g, ""));
+  const scale = { k: 1e3, m: 1e6, b: 1e9 }[(match[2] ?? "").toLowerCase()] ?? 1;
+  return Number.isFinite(n) ? Math.round(n * scale) : null;
+}
+
+/** "5.4%" or "5.4" as 5.4; `null` when blank or unreadable. */
+export function parsePercent(value: string | undefined): number | null {
+  const text = (value ?? "").trim().replace(/%$/, "").trim();
+  if (!text) return null;
+  const n = Number(text.replace(",", "."));
+  return Number.isFinite(n) && n >= 0 && n <= 100 ? n : null;
+}
+
+/**
+ * Pasted rows, one title per line with optional tab-separated views and CTR
+ * (what copying from a spreadsheet produces). A header row starting with
+ * "title" is skipped.
+ */
+export function parsePastedTitles(text: string, now = new Date()): PastTitle[] {
+  const addedAt = now.toISOString();
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.split("\t"))
+    .filter(([title], i) => title?.trim() && !(i === 0 && /^title$/i.test(title.trim())))
+    .map(([title, views, ctr]) => ({ title: title.trim(), views: parseCount(views), ctr: parsePercent(ctr), addedAt }));
+}
+
+const pastTitleSchema = z.object({
+  title: z.string().trim().min(1, "title must not be empty").max(200),
+  views: z.number().int().min(0).nullable().optional(),
+  ctr: z.number().min(0).max(100).nullable().optional(),
+});
+
+export const channelTitlesSchema = z
+  .object({
+    titles: z.array(pastTitleSchema).max(CHANNEL_UPLOAD_MAX_TITLES).optional(),
+    text: z.string().max(CHANNEL_TEXT_MAX_LENGTH).optional(),
+    replace: z.boolean().optional(),
+  })
+  .refine((body) => body.titles?.length || body.text?.trim(), { message: "titles or text is required" });
+
+/** Validates an upload body into the titles to store, throwing `RequestValidationError`. */
+export function parseChannelTitles(body: unknown, now = new Date()): { titles: PastTitle[]; replace: boolean } {
+  const { titles = [], text = "", replace = false } = parseWithSchema(channelTitlesSchema, body);
+  const addedAt = now.toISOString();
+  const all = [...titles.map((t) => ({ title: t.title, views: t.views ?? null, ctr: t.ctr ?? null, addedAt })), ...parsePastedTitles(text, now)];
+  if (all.length > CHANNEL_UPLOAD_MAX_TITLES) {
+    throw new RequestValidationError([{ path: "", message: `at most ${CHANNEL_UPLOAD_MAX_TITLES} titles per upload` }]);
+  }
+  return { titles: all, replace };
+}
+
+/** The channel without its titles, for listings. */
+export function channelSummary({ titles, ...channel }: Channel) {
+  return { ...channel, titleCount: titles.length };
+}
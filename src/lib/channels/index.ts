@@ -0,0 +1,6 @@
+export { CHANNEL_ID_PATTERN, channelSummary, channelTitlesSchema, parseChannelId, parseChannelTitles, parseCount, parsePastedTitles, parsePercent } from "./channels";
+export { channelInsights, channelKeywords, detectStyle, titleFeatures } from "./insights";
+export type { ChannelInsights, FeatureInsight, InsightBucket, InsightFeature, TitleFeatures } from "./insights";
+export { parseCsv, parseDuration, parseStudioCsv, parseStudioImport, studioImportSchema } from "./studio-csv";
+export { CHANNEL_TITLES_MAX, FileChannelStore, getChannelStore, MemoryChannelStore, setChannelStore } from "./store";
+export type * from "./types";
@@ -0,0 +1,165 @@
+import { tokenize } from "@/lib/titles/score";
+import { contentTokens } from "@/lib/titles/similarity";
+import { STYLE_GUIDES } from "@/lib/titles/styles";
+import type { TitleStyle } from "@/lib/titles/types";
+import type { Channel, PastTitle } from "./types";
+
+export type InsightFeature = "length" | "question" | "number" | "keywordPosition" | "style";
+
+export type InsightBucket = {
+  bucket: string;
+  count: number;
+  /** Mean CTR in percent of the titles in the bucket. */
+  meanCtr: number;
+  meanViews: number | null;
+};
+
+export type FeatureInsight = {
+  feature: InsightFeature;
+  label: string;
+  /** Pearson correlation with CTR (-1 to 1); `null` for categorical features or too little data. */
+  correlation: number | null;
+  buckets: InsightBucket[];
+};
+
+export type ChannelInsights = {
+  channelId: string;
+  /** Titles with a CTR; only these are analyzed. */
+  titles: number;
+  meanCtr: number | null;
+  /** Keywords used for `keywordPosition`: the request's, or the channel's most frequent words. */
+  keywords: string[];
+  features: FeatureInsight[];
+};
+
+/** Checked in this order; curiosity-gap has no structural check so it can't be detected. */
+const DETECTABLE_STYLES: TitleStyle[] = ["listicle", "question", "how-to", "comparison", "story"];
+/** Words within the first this many count as a front-loaded keyword. */
+const FRONT_WORDS = 3;
+const LENGTH_BUCKETS: [string, (n: number) => boolean][] = [
+  ["< 30", (n) => n < 30],
+  ["30-45", (n) => n >= 30 && n <= 45],
+  ["46-60", (n) => n > 45 && n <= 60],
+  ["> 60", (n) => n > 60],
+];
+
+export type TitleFeatures = {
+  length: number;
+  question: boolean;
+  number: boolean;
+  keywordPosition: "start" | "later" | "none";
+  style: TitleStyle | "other";
+};
+
+/** The first style whose check the title passes, or `other`. */
+export function detectStyle(title: string): TitleStyle | "other" {
+  return DETECTABLE_STYLES.find((s) => STYLE_GUIDES[s].check(title)) ?? "other";
+}
+
+export function titleFeatures(title: string, keywords: string[]): TitleFeatures {
+  const tokens = tokenize(title);
+  const keywordTokens = new Set(keywords.flatMap(tokenize));
+  const position = tokens.findIndex((t) => keywordTokens.has(t));
+  return {
+    length: title.length,
+    question: title.trimEnd().endsWith("?"),
+    number: /\d/.test(title),
+    keywordPosition: position === -1 ? "none" : position < FRONT_WORDS ? "start" : "later",
+    style: detectStyle(title),
+  };
+}
+
+/** The channel's most frequent content words, used when no keywords are given. */
+export function channelKeywords(titles: PastTitle[], limit = 5): string[] {
+  const counts = new Map<string, number>();
+  for (const { title } of titles) for (const word of contentTokens(title)) counts.set(word, (counts.get(word) ?? 0) + 1);
+  return [...counts.entries()]
+    .filter(([word, n]) => n > 1 && word.length > 2)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([word]) => word);
+}
+
+const mean = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : null);
+const round = (n: number, digits = 2) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+function pearson(xs: number[], ys: number[]): number | null {
+  if (xs.length < 3) return null;
+  const mx = mean(xs)!;
+  const my = mean(ys)!;
+  let cov = 0;
+  let vx = 0;
+  let vy = 0;
+  xs.forEach((x, i) => {
+    cov += (x - mx) * (ys[i] - my);
+    vx += (x - mx) ** 2;
+    vy += (ys[i] - my) ** 2;
+  });
+  return vx && vy ? round(cov / Math.sqrt(vx * vy)) : null;
+}
+
+type Row = { title: PastTitle & { ctr: number }; features: TitleFeatures };
+
+function buckets(rows: Row[], keyOf: (row: Row) => string, order: string[]): InsightBucket[] {
+  return order
+    .map((bucket) => {
+      const members = rows.filter((row) => keyOf(row) === bucket);
+      const views = members.map((m) => m.title.views).filter((v): v is number => v !== null);
+      const meanViews = mean(views);
+      return {
+        bucket,
+        count: members.length,
+        meanCtr: round(mean(members.map((m) => m.title.ctr)) ?? 0),
+        meanViews: meanViews === null ? null : Math.round(meanViews),
+      };
+    })
+    .filter((b) => b.count > 0);
+}
+
+/**
+ * Correlates title features with CTR across the channel's titles that have a
+ * CTR: length, question vs statement, numbers, keyword position and style.
+ */
+export function channelInsights(channel: Channel, keywords?: string[]): ChannelInsights {
+  const withCtr = channel.titles.filter((t): t is PastTitle & { ctr: number } => t.ctr !== null);
+  const used = keywords?.length ? keywords : channelKeywords(channel.titles);
+  const rows: Row[] = withCtr.map((title) => ({ title, features: titleFeatures(title.title, used) }));
+  const ctr = rows.map((r) => r.title.ctr);
+  const flag = (pick: (f: TitleFeatures) => boolean) => pearson(rows.map((r) => (pick(r.features) ? 1 : 0)), ctr);
+
+  const features: FeatureInsight[] = [
+    {
+      feature: "length",
+      label: "Length (characters)",
+      correlation: pearson(rows.map((r) => r.features.length), ctr),
+      buckets: buckets(rows, (r) => LENGTH_BUCKETS.find(([, test]) => test(r.features.length))![0], LENGTH_BUCKETS.map(([name]) => name)),
+    },
+    {
+      feature: "question",
+      label: "Question vs statement",
+      correlation: flag((f) => f.question),
+      buckets: buckets(rows, (r) => (r.features.question ? "question" : "statement"), ["question", "statement"]),
+    },
+    {
+      feature: "number",
+      label: "Contains a number",
+      correlation: flag((f) => f.number),
+      buckets: buckets(rows, (r) => (r.features.number ? "number" : "no number"), ["number", "no number"]),
+    },
+    {
+      feature: "keywordPosition",
+      label: `Keyword position (first ${FRONT_WORDS} words)`,
+      correlation: flag((f) => f.keywordPosition === "start"),
+      buckets: buckets(rows, (r) => r.features.keywordPosition, ["start", "later", "none"]),
+    },
+    {
+      feature: "style",
+      label: "Style",
+      correlation: null,
+      buckets: buckets(rows, (r) => r.features.style, [...DETECTABLE_STYLES, "other"]),
+    },
+  ];
+
+  const overall = mean(ctr);
+  return { channelId: channel.id, titles: rows.length, meanCtr: overall === null ? null : round(overall), keywords: used, features };
+}
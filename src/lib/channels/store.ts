@@ -0,0 +1,91 @@
+import { dataPath, JsonFile } from "@/lib/storage/json-file";
+import type { Channel, ChannelStore, PastTitle } from "./types";
+
+type ChannelsDocument = {
+  channels: Channel[];
+};
+
+/** Titles kept per channel; the oldest additions go first. */
+export const CHANNEL_TITLES_MAX = 5000;
+
+function mergeTitles(doc: ChannelsDocument, id: string, titles: PastTitle[], replace: boolean, now: Date): Channel {
+  const at = now.toISOString();
+  let channel = doc.channels.find((c) => c.id === id);
+  if (!channel) {
+    channel = { id, titles: [], createdAt: at, updatedAt: at };
+    doc.channels.push(channel);
+  }
+  const byTitle = new Map((replace ? [] : channel.titles).map((t) => [t.title.toLowerCase(), t]));
+  for (const title of titles) {
+    byTitle.delete(title.title.toLowerCase());
+    byTitle.set(title.title.toLowerCase(), title);
+  }
+  channel.titles = [...byTitle.values()].slice(-CHANNEL_TITLES_MAX);
+  channel.updatedAt = at;
+  return channel;
+}
+
+function removeChannel(doc: ChannelsDocument, id: string): Channel | null {
+  const index = doc.channels.findIndex((c) => c.id === id);
+  return index === -1 ? null : doc.channels.splice(index, 1)[0];
+}
+
+/** All channels in one JSON file (`CHANNELS_FILE`, default `.data/channels.json`). */
+export class FileChannelStore implements ChannelStore {
+  private readonly file: JsonFile<ChannelsDocument>;
+
+  constructor(filePath = process.env.CHANNELS_FILE || dataPath("channels.json")) {
+    this.file = new JsonFile<ChannelsDocument>(filePath, () => ({ channels: [] }));
+  }
+
+  async get(id: string) {
+    return (await this.file.read()).channels.find((c) => c.id === id) ?? null;
+  }
+
+  async list() {
+    return (await this.file.read()).channels;
+  }
+
+  addTitles(id: string, titles: PastTitle[], replace: boolean, now = new Date()) {
+    return this.file.update((doc) => mergeTitles(doc, id, titles, replace, now));
+  }
+
+  delete(id: string) {
+    return this.file.update((doc) => removeChannel(doc, id));
+  }
+}
+
+/** Process-local store; channels are lost on restart. */
+export class MemoryChannelStore implements ChannelStore {
+  private readonly doc: ChannelsDocument = { channels: [] };
+
+  async get(id: string) {
+    const channel = this.doc.channels.find((c) => c.id === id);
+    return channel ? structuredClone(channel) : null;
+  }
+
+  async list() {
+    return structuredClone(this.doc.channels);
+  }
+
+  async addTitles(id: string, titles: PastTitle[], replace: boolean, now = new Date()) {
+    return structuredClone(mergeTitles(this.doc, id, titles, replace, now));
+  }
+
+  async delete(id: string) {
+    return removeChannel(this.doc, id);
+  }
+}
+
+let store: ChannelStore | null = null;
+
+/** The configured store: `CHANNELS_STORE=memory` or the file store (default). */
+export function getChannelStore(): ChannelStore {
+  if (!store) store = process.env.CHANNELS_STORE === "memory" ? new MemoryChannelStore() : new FileChannelStore();
+  return store;
+}
+
+/** Swaps in another backend (e.g. a database-backed store). */
+export function setChannelStore(next: ChannelStore) {
+  store = next;
+}
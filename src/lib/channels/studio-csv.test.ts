@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { RequestValidationError } from "@/lib/validation";
+import { parseCsv, parseDuration, parseStudioCsv, parseStudioImport } from "./studio-csv";
+
+const NOW = new Date("2025-01-01T00:00:00.000Z");
+
+const STUDIO_EXPORT = [
+  "﻿Content,Video title,Video publish time,Average view duration,Views,Impressions,Impressions click-through rate (%)",
+  "Total,,,0:03:10,\"12,500\",200000,4.5",
+  "abc123,\"React, Vue, or Svelte?\",\"Mar 4, 2024\",0:04:05,\"10,000\",150000,5.1",
+  "def456,\"Say \"\"Hi\"\" to TS\",,2:30,2500,,",
+  "",
+].join("\r\n");
+
+describe("parseCsv", () => {
+  it("handles quoted commas, escaped quotes and newlines", () => {
+    expect(parseCsv('a,"b,c","say ""hi""","two\nlines"\r\nx,y')).toEqual([
+      ["a", "b,c", 'say "hi"', "two\nlines"],
+      ["x", "y"],
+    ]);
+  });
+
+  it("skips blank rows", () => {
+    expect(parseCsv("a,b\n\n , \nc,d\n")).toEqual([["a", "b"], ["c", "d"]]);
+  });
+});
+
+describe("parseDuration", () => {
+  it("reads h:mm:ss, m:ss and plain seconds", () => {
+    expect(parseDuration("0:03:25")).toBe(205);
+    expect(parseDuration("3:25")).toBe(205);
+    expect(parseDuration("205")).toBe(205);
+  });
+
+  it("returns null when unreadable", () => {
+    expect(parseDuration("")).toBeNull();
+    expect(parseDuration("3m")).toBeNull();
+    expect(parseDuration(undefined)).toBeNull();
+  });
+});
+
+describe("parseStudioCsv", () => {
+  it("maps Studio columns and skips the Total row", () => {
+    expect(parseStudioCsv(STUDIO_EXPORT, NOW)).toEqual([
+      {
+        title: "React, Vue, or Svelte?",
+        views: 10000,
+        ctr: 5.1,
+        impressions: 150000,
+        avgViewDurationSeconds: 245,
+        publishedAt: new Date("Mar 4, 2024").toISOString(),
+        addedAt: NOW.toISOString(),
+      },
+      { title: 'Say "Hi" to TS', views: 2500, ctr: null, impressions: null, avgViewDurationSeconds: 150, publishedAt: null, addedAt: NOW.toISOString() },
+    ]);
+  });
+
+  it("needs only a title column", () => {
+    expect(parseStudioCsv("Title\nOnly a title", NOW)).toMatchObject([{ title: "Only a title", views: null, ctr: null }]);
+  });
+
+  it("rejects a CSV without a title column", () => {
+    expect(() => parseStudioCsv("Views,CTR\n1,2", NOW)).toThrow(RequestValidationError);
+  });
+});
+
+describe("parseStudioImport", () => {
+  it("rejects a CSV without video rows", () => {
+    expect(() => parseStudioImport({ csv: "Video title\nTotal" }, NOW)).toThrow(RequestValidationError);
+  });
+
+  it("defaults replace to false", () => {
+    expect(parseStudioImport({ csv: "Video title\nA" }, NOW).replace).toBe(false);
+  });
+});
@@ -0,0 +1,117 @@
+import { z } from "zod";
+import { parseWithSchema, RequestValidationError } from "@/lib/validation";
+import { CHANNEL_TEXT_MAX_LENGTH, CHANNEL_UPLOAD_MAX_TITLES, parseCount, parsePercent } from "./channels";
+import type { PastTitle } from "./types";
+
+/** RFC 4180 rows: quoted fields may hold commas, newlines and `""` escapes. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) rows.push([...row, field]);
+  return rows.filter((r) => r.some((f) => f.trim()));
+}
+
+/** "0:03:25", "3:25" or "205" as seconds; `null` when unreadable. */
+export function parseDuration(value: string | undefined): number | null {
+  const parts = (value ?? "").trim().split(":");
+  if (!parts[0] || parts.some((p) => !/^\d+(\.\d+)?$/.test(p))) return null;
+  return Math.round(parts.reduce((total, p) => total * 60 + Number(p), 0));
+}
+
+function parseDate(value: string | undefined): string | null {
+  const time = Date.parse((value ?? "").trim());
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+type Column = "title" | "views" | "impressions" | "ctr" | "avgViewDuration" | "publishedAt";
+
+/** Header names in YouTube Studio's "Content" export, lowercased; the first match wins. */
+const HEADERS: Record<Column, string[]> = {
+  title: ["video title", "title", "content title"],
+  views: ["views"],
+  impressions: ["impressions"],
+  ctr: ["impressions click-through rate (%)", "impressions click-through rate", "ctr"],
+  avgViewDuration: ["average view duration"],
+  publishedAt: ["video publish time", "publish time", "published"],
+};
+
+function findColumns(header: string[]): Partial<Record<Column, number>> {
+  const names = header.map((h) => h.trim().toLowerCase());
+  const columns: Partial<Record<Column, number>> = {};
+  for (const [column, candidates] of Object.entries(HEADERS) as [Column, string[]][]) {
+    const index = candidates.map((c) => names.indexOf(c)).find((i) => i !== -1);
+    if (index !== undefined) columns[column] = index;
+  }
+  return columns;
+}
+
+/**
+ * Parses a YouTube Studio "Content" report CSV into past titles. Only the
+ * title column is required; the "Total" row Studio adds is skipped. Throws a
+ * 400 when no title column is found.
+ */
+export function parseStudioCsv(text: string, now = new Date()): PastTitle[] {
+  const [header, ...rows] = parseCsv(text);
+  const columns = findColumns(header ?? []);
+  if (columns.title === undefined) {
+    throw new RequestValidationError([{ path: "csv", message: 'no "Video title" column found; export the Content report from YouTube Studio' }]);
+  }
+  const cell = (row: string[], column: Column) => (columns[column] === undefined ? undefined : row[columns[column]!]);
+  const addedAt = now.toISOString();
+  return rows
+    .filter((row) => cell(row, "title")?.trim() && row[0]?.trim().toLowerCase() !== "total")
+    .map((row) => ({
+      title: cell(row, "title")!.trim(),
+      views: parseCount(cell(row, "views")),
+      ctr: parsePercent(cell(row, "ctr")),
+      impressions: parseCount(cell(row, "impressions")),
+      avgViewDurationSeconds: parseDuration(cell(row, "avgViewDuration")),
+      publishedAt: parseDate(cell(row, "publishedAt")),
+      addedAt,
+    }));
+}
+
+export const studioImportSchema = z.object({
+  csv: z.string().trim().min(1, "csv is required").max(CHANNEL_TEXT_MAX_LENGTH),
+  replace: z.boolean().optional(),
+});
+
+/** Validates an import body and parses its CSV, throwing `RequestValidationError`. */
+export function parseStudioImport(body: unknown, now = new Date()): { titles: PastTitle[]; replace: boolean } {
+  const { csv, replace = false } = parseWithSchema(studioImportSchema, body);
+  const titles = parseStudioCsv(csv, now);
+  if (!titles.length) throw new RequestValidationError([{ path: "csv", message: "the CSV has no video rows" }]);
+  if (titles.length > CHANNEL_UPLOAD_MAX_TITLES) {
+    throw new RequestValidationError([{ path: "csv", message: `at most ${CHANNEL_UPLOAD_MAX_TITLES} titles per upload` }]);
+  }
+  return { titles, replace };
+}
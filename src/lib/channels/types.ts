@@ -0,0 +1,33 @@
+/** A title the channel already published, with its performance when known. */
+export type PastTitle = {
+  title: string;
+  views: number | null;
+  /** Impressions click-through rate in percent (5.4 means 5.4%). */
+  ctr: number | null;
+  /** The fields below come from YouTube Studio imports and are absent on pasted titles. */
+  impressions?: number | null;
+  avgViewDurationSeconds?: number | null;
+  publishedAt?: string | null;
+  addedAt: string;
+};
+
+/** A channel's title history, keyed by a slug the user picks (e.g. `main`). */
+export type Channel = {
+  id: string;
+  titles: PastTitle[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export interface ChannelStore {
+  get(id: string): Promise<Channel | null>;
+  list(): Promise<Channel[]>;
+  /**
+   * Adds titles to the channel, creating it if needed. A title already stored
+   * (case-insensitively) has its numbers replaced. With `replace` the channel's
+   * previous titles are dropped first.
+   */
+  addTitles(id: string, titles: PastTitle[], replace: boolean, now?: Date): Promise<Channel>;
+  /** Returns the removed channel, or `null` when there was none. */
+  delete(id: string): Promise<Channel | null>;
+}
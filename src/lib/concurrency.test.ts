@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { mapConcurrent } from "./concurrency";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function collect<T>(results: AsyncGenerator<T>): Promise<T[]> {
+  const all: T[] = [];
+  for await (const result of results) all.push(result);
+  return all;
+}
+
+describe("mapConcurrent", () => {
+  it("yields results in completion order", async () => {
+    const results = await collect(mapConcurrent([30, 10, 20], 3, async (ms) => (await delay(ms), ms)));
+    expect(results).toEqual([10, 20, 30]);
+  });
+
+  it("never has more than `limit` calls in flight", async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await collect(
+      mapConcurrent([5, 1, 4, 2, 3], 2, async (ms, index) => {
+        peak = Math.max(peak, ++running);
+        await delay(ms);
+        running--;
+        return index;
+      }),
+    );
+    expect(peak).toBe(2);
+    expect([...results].sort((a, b) => a - b)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it("ends on the first rejection", async () => {
+    const results = mapConcurrent([1, 2], 2, async (n) => {
+      if (n === 1) throw new Error("boom");
+      await delay(5);
+      return n;
+    });
+    await expect(collect(results)).rejects.toThrow("boom");
+  });
+
+  it("yields nothing for no inputs", async () => {
+    expect(await collect(mapConcurrent([], 4, async (n: number) => n))).toEqual([]);
+  });
+});
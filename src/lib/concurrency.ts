@@ -0,0 +1,21 @@
+/**
+ * Runs `fn` over `inputs` with at most `limit` calls in flight, yielding
+ * results in completion order. `fn` should not reject: a rejection ends the
+ * iteration, while the calls already started keep running.
+ */
+export async function* mapConcurrent<T, R>(inputs: readonly T[], limit: number, fn: (input: T, index: number) => Promise<R>): AsyncGenerator<R> {
+  const pending = new Map<number, Promise<[number, R]>>();
+  let next = 0;
+  const launch = () => {
+    const index = next++;
+    pending.set(index, fn(inputs[index], index).then((result): [number, R] => [index, result]));
+  };
+
+  while (next < inputs.length && pending.size < limit) launch();
+  while (pending.size) {
+    const [index, result] = await Promise.race(pending.values());
+    pending.delete(index);
+    if (next < inputs.length) launch();
+    yield result;
+  }
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { corsHeaders } from "./cors";
+
+describe("corsHeaders", () => {
+  it("allows POST with the auth and rate limit headers by default", () => {
+    expect(corsHeaders()).toEqual({
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+      "Access-Control-Expose-Headers": "Retry-After, WWW-Authenticate, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset",
+    });
+  });
+
+  it("adds a route's own methods and headers", () => {
+    const headers = corsHeaders({ methods: "GET, OPTIONS", allowHeaders: ["If-None-Match"], exposeHeaders: ["ETag"] });
+    expect(headers["Access-Control-Allow-Methods"]).toBe("GET, OPTIONS");
+    expect(headers["Access-Control-Allow-Headers"]).toBe("Content-Type, Authorization, If-None-Match");
+    expect(headers["Access-Control-Expose-Headers"]).toMatch(/, ETag$/);
+  });
+});
@@ -0,0 +1,23 @@
+const ALLOWED_ORIGIN = "*"; // Adjust if you want to restrict
+
+/** Headers any public API answer may carry: auth challenges and rate limit details. */
+const EXPOSED_HEADERS = ["Retry-After", "WWW-Authenticate", "X-RateLimit-Limit", "X-RateLimit-Remaining", "X-RateLimit-Reset"];
+
+export type CorsOptions = {
+  /** Default `POST, OPTIONS`. */
+  methods?: string;
+  /** Request headers accepted besides `Content-Type` and `Authorization`. */
+  allowHeaders?: string[];
+  /** Response headers readable by browsers besides the auth and rate limit ones. */
+  exposeHeaders?: string[];
+};
+
+/** CORS headers for a `/api/public/*` route. `vercel.json` repeats them per route; keep both in sync. */
+export function corsHeaders({ methods = "POST, OPTIONS", allowHeaders = [], exposeHeaders = [] }: CorsOptions = {}): Record<string, string> {
+  return {
+    "Access-Control-Allow-Origin": ALLOWED_ORIGIN,
+    "Access-Control-Allow-Methods": methods,
+    "Access-Control-Allow-Headers": ["Content-Type", "Authorization", ...allowHeaders].join(", "),
+    "Access-Control-Expose-Headers": [...EXPOSED_HEADERS, ...exposeHeaders].join(", "),
+  };
+}
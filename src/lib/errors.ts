@@ -0,0 +1,29 @@
+import { ApiAuthError } from "@/lib/api-keys/auth";
+import { ProviderError } from "@/lib/providers/errors";
+import { TitleGenerationError } from "@/lib/titles/errors";
+import { RequestValidationError } from "@/lib/validation";
+import type { ValidationIssue } from "@/lib/validation";
+
+export type ErrorPayload = {
+  status: number;
+  body: { error: string; raw?: unknown; issues?: ValidationIssue[] };
+  headers?: Record<string, string>;
+};
+
+/** Maps any thrown value to the `{ error }` body and status the routes respond with. */
+export function errorPayload(err: unknown): ErrorPayload {
+  const message = (err && typeof err === "object" && "message" in err) ? String((err as { message?: string }).message) : "Unexpected error";
+  if (err instanceof RequestValidationError) {
+    return { status: err.status, body: { error: message, issues: err.issues } };
+  }
+  if (err instanceof TitleGenerationError) {
+    return { status: err.status, body: { error: message, raw: err.raw } };
+  }
+  if (err instanceof ApiAuthError) {
+    return { status: err.status, body: { error: message }, headers: err.headers };
+  }
+  if (err instanceof ProviderError) {
+    return { status: err.status, body: { error: message } };
+  }
+  return { status: 500, body: { error: message } };
+}
@@ -0,0 +1,10 @@
+type UnknownRecord = Record<string, unknown>;
+
+/** Turns a failed API response's `{ error, issues }` body into one readable message. */
+export async function responseErrorMessage(res: Response): Promise<string> {
+  const data: unknown = await res.json().catch(() => null);
+  const obj = (data && typeof data === "object" ? (data as UnknownRecord) : {}) as UnknownRecord;
+  const issues = Array.isArray(obj["issues"]) ? (obj["issues"] as { path: string; message: string }[]) : [];
+  if (issues.length) return issues.map((i) => (i.path ? `${i.path}: ${i.message}` : i.message)).join("; ");
+  return obj["error"] ? String(obj["error"]) : "Request failed";
+}
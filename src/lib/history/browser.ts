@@ -0,0 +1,83 @@
+import { responseErrorMessage } from "@/lib/fetch-error";
+import { searchHistory } from "./search";
+import type { HistoryEntry } from "./types";
+
+/** localStorage key of the Home page's anonymous history. */
+export const HISTORY_STORAGE_KEY = "titles.history";
+/** localStorage holds a few MB per origin, so anonymous history keeps fewer entries than the server. */
+export const LOCAL_HISTORY_MAX = 50;
+
+export type NewHistoryEntry = Omit<HistoryEntry, "id" | "createdAt">;
+
+/** Where the Home page saves generations: the server for signed-in use, localStorage otherwise. */
+export interface HistoryBackend {
+  readonly kind: "local" | "remote";
+  list(query: string): Promise<HistoryEntry[]>;
+  save(entry: NewHistoryEntry): Promise<HistoryEntry>;
+  remove(id: string): Promise<void>;
+}
+
+function readLocal(storage: Storage): HistoryEntry[] {
+  try {
+    const parsed = JSON.parse(storage.getItem(HISTORY_STORAGE_KEY) ?? "[]");
+    return Array.isArray(parsed) ? (parsed as HistoryEntry[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Halves the list until it fits when the browser's quota is reached
+function writeLocal(storage: Storage, entries: HistoryEntry[]) {
+  let kept = entries.slice(0, LOCAL_HISTORY_MAX);
+  while (kept.length) {
+    try {
+      storage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(kept));
+      return;
+    } catch {
+      kept = kept.slice(0, Math.floor(kept.length / 2));
+    }
+  }
+  storage.removeItem(HISTORY_STORAGE_KEY);
+}
+
+export function localHistory(storage: Storage = window.localStorage): HistoryBackend {
+  return {
+    kind: "local",
+    async list(query) {
+      return searchHistory(readLocal(storage), query);
+    },
+    async save(fields) {
+      const entry: HistoryEntry = { id: crypto.randomUUID(), ...fields, createdAt: new Date().toISOString() };
+      writeLocal(storage, [entry, ...readLocal(storage)]);
+      return entry;
+    },
+    async remove(id) {
+      writeLocal(storage, readLocal(storage).filter((e) => e.id !== id));
+    },
+  };
+}
+
+export function remoteHistory(apiKey: string): HistoryBackend {
+  const headers = { Authorization: `Bearer ${apiKey}` };
+  return {
+    kind: "remote",
+    async list(query) {
+      const res = await fetch(`/api/history${query.trim() ? `?q=${encodeURIComponent(query)}` : ""}`, { headers });
+      if (!res.ok) throw new Error(await responseErrorMessage(res));
+      return ((await res.json()) as { entries: HistoryEntry[] }).entries;
+    },
+    async save(fields) {
+      const res = await fetch("/api/history", {
+        method: "POST",
+        headers: { ...headers, "Content-Type": "application/json" },
+        body: JSON.stringify(fields),
+      });
+      if (!res.ok) throw new Error(await responseErrorMessage(res));
+      return ((await res.json()) as { entry: HistoryEntry }).entry;
+    },
+    async remove(id) {
+      const res = await fetch(`/api/history/${encodeURIComponent(id)}`, { method: "DELETE", headers });
+      if (!res.ok && res.status !== 404) throw new Error(await responseErrorMessage(res));
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { RequestValidationError } from "@/lib/validation";
+import { HISTORY_ITEMS_MAX, parseHistoryEntry } from "./history";
+
+const SCORES = { keywordCoverage: null, lengthFit: 80, frontLoading: null, readability: 90, clickbaitPenalty: 0, overall: 86 };
+
+const item = (title: string) => ({ title, status: "original", scores: SCORES });
+
+const entry = (count: number) => ({
+  input: { description: "A beginner tutorial on React hooks" },
+  items: Array.from({ length: count }, (_, i) => item(`React Hooks Tip ${i + 1}`)),
+  model: "llama3.1",
+  provider: "ollama",
+});
+
+describe("parseHistoryEntry", () => {
+  it("accepts more titles than one request's count", () => {
+    expect(parseHistoryEntry(entry(40)).items).toHaveLength(40);
+  });
+
+  it("trims longer lists instead of rejecting them", () => {
+    const { items } = parseHistoryEntry(entry(HISTORY_ITEMS_MAX + 20));
+    expect(items).toHaveLength(HISTORY_ITEMS_MAX);
+    expect(items[0].title).toBe("React Hooks Tip 1");
+  });
+
+  it("drops keys a title item doesn't have", () => {
+    const { items } = parseHistoryEntry({ ...entry(0), items: [{ ...item("React Hooks Tip"), style: "listicle", note: "x".repeat(10_000) }] });
+    expect(items).toEqual([{ ...item("React Hooks Tip"), style: "listicle" }]);
+  });
+
+  it("rejects items without a status or scores", () => {
+    expect(() => parseHistoryEntry({ ...entry(0), items: [{ title: "React Hooks Tip" }] })).toThrow(RequestValidationError);
+  });
+
+  it("rejects an empty list", () => {
+    expect(() => parseHistoryEntry(entry(0))).toThrow(RequestValidationError);
+  });
+
+  it("stamps an id and the creation time", () => {
+    const saved = parseHistoryEntry(entry(1), new Date("2025-01-01T00:00:00Z"));
+    expect(saved.id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(saved.createdAt).toBe("2025-01-01T00:00:00.000Z");
+    expect(saved.summary).toBeNull();
+  });
+});
@@ -0,0 +1,34 @@
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+import { PROVIDER_IDS } from "@/lib/providers";
+import type { ProviderId } from "@/lib/providers";
+import { titleItemSchema, titleRequestSchema, titleSummarySchema } from "@/lib/titles/schema";
+import { parseWithSchema } from "@/lib/validation";
+import type { HistoryEntry } from "./types";
+
+/** Titles kept per saved generation; generations without `count`, and appended ones, can pass the 25-title `count` limit. */
+export const HISTORY_ITEMS_MAX = 100;
+
+export const historyEntrySchema = z.object({
+  // The same brief `/api/suggest` accepts, minus the per-call options
+  input: titleRequestSchema.omit({ provider: true, model: true, cache: true, includeSummary: true }),
+  // Items are stored as the page received them, minus any keys a title item doesn't have. Longer lists are trimmed, not rejected
+  items: z.preprocess((v) => (Array.isArray(v) ? v.slice(0, HISTORY_ITEMS_MAX) : v), z.array(titleItemSchema).min(1, "items must not be empty")),
+  summary: titleSummarySchema.nullable().optional(),
+  model: z.string().trim().min(1).max(100),
+  provider: z.enum(PROVIDER_IDS as [ProviderId, ...ProviderId[]]),
+});
+
+/** Validates a generation to save, throwing `RequestValidationError`, and gives it an id and timestamp. */
+export function parseHistoryEntry(body: unknown, now = new Date()): HistoryEntry {
+  const { input, items, summary, model, provider } = parseWithSchema(historyEntrySchema, body);
+  return {
+    id: randomUUID(),
+    input,
+    items,
+    summary: summary ?? null,
+    model,
+    provider,
+    createdAt: now.toISOString(),
+  };
+}
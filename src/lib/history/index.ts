@@ -0,0 +1,4 @@
+export { HISTORY_ITEMS_MAX, historyEntrySchema, parseHistoryEntry } from "./history";
+export { searchHistory } from "./search";
+export { FileHistoryStore, getHistoryStore, HISTORY_MAX_ENTRIES, MemoryHistoryStore, setHistoryStore } from "./store";
+export type * from "./types";
@@ -0,0 +1,22 @@
+import type { HistoryEntry } from "./types";
+
+/**
+ * Entries whose brief (description, keywords, niche) or titles contain every
+ * word of `query`, case-insensitively. A blank query matches everything.
+ * Shared by the server routes and the browser's localStorage history.
+ */
+export function searchHistory(entries: HistoryEntry[], query: string): HistoryEntry[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!words.length) return entries;
+  return entries.filter((entry) => {
+    const haystack = [
+      entry.input.description ?? "",
+      ...(entry.input.keywords ?? []),
+      entry.input.niche ?? "",
+      ...entry.items.map((item) => item.title),
+    ]
+      .join("\n")
+      .toLowerCase();
+    return words.every((word) => haystack.includes(word));
+  });
+}
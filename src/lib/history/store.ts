@@ -0,0 +1,95 @@
+import { dataPath, JsonFile } from "@/lib/storage/json-file";
+import type { HistoryEntry, HistoryStore } from "./types";
+
+/** Entries kept per owner; the oldest are dropped past this. */
+export const HISTORY_MAX_ENTRIES = 200;
+
+type OwnedEntry = HistoryEntry & { ownerId: string };
+
+type HistoryDocument = {
+  entries: OwnedEntry[];
+};
+
+function addEntry(doc: HistoryDocument, ownerId: string, entry: HistoryEntry) {
+  doc.entries.unshift({ ...entry, ownerId });
+  const owned = doc.entries.filter((e) => e.ownerId === ownerId);
+  if (owned.length > HISTORY_MAX_ENTRIES) {
+    const dropped = new Set(owned.slice(HISTORY_MAX_ENTRIES));
+    doc.entries = doc.entries.filter((e) => !dropped.has(e));
+  }
+}
+
+function withoutOwner(entry: OwnedEntry): HistoryEntry {
+  const { id, input, items, summary, model, provider, createdAt } = entry;
+  return { id, input, items, summary, model, provider, createdAt };
+}
+
+function ownedBy(doc: HistoryDocument, ownerId: string): HistoryEntry[] {
+  return doc.entries.filter((e) => e.ownerId === ownerId).map(withoutOwner);
+}
+
+function removeEntry(doc: HistoryDocument, ownerId: string, id: string): HistoryEntry | null {
+  const index = doc.entries.findIndex((e) => e.ownerId === ownerId && e.id === id);
+  if (index === -1) return null;
+  return withoutOwner(doc.entries.splice(index, 1)[0]);
+}
+
+/** All owners' entries in one JSON file (`HISTORY_FILE`, default `.data/history.json`). */
+export class FileHistoryStore implements HistoryStore {
+  private readonly file: JsonFile<HistoryDocument>;
+
+  constructor(filePath = process.env.HISTORY_FILE || dataPath("history.json")) {
+    this.file = new JsonFile<HistoryDocument>(filePath, () => ({ entries: [] }));
+  }
+
+  async insert(ownerId: string, entry: HistoryEntry) {
+    await this.file.update((doc) => addEntry(doc, ownerId, entry));
+  }
+
+  async get(ownerId: string, id: string) {
+    return ownedBy(await this.file.read(), ownerId).find((e) => e.id === id) ?? null;
+  }
+
+  async list(ownerId: string) {
+    return ownedBy(await this.file.read(), ownerId);
+  }
+
+  delete(ownerId: string, id: string) {
+    return this.file.update((doc) => removeEntry(doc, ownerId, id));
+  }
+}
+
+/** Process-local store; history is lost on restart. */
+export class MemoryHistoryStore implements HistoryStore {
+  private readonly doc: HistoryDocument = { entries: [] };
+
+  async insert(ownerId: string, entry: HistoryEntry) {
+    addEntry(this.doc, ownerId, structuredClone(entry));
+  }
+
+  async get(ownerId: string, id: string) {
+    const entry = ownedBy(this.doc, ownerId).find((e) => e.id === id);
+    return entry ? structuredClone(entry) : null;
+  }
+
+  async list(ownerId: string) {
+    return structuredClone(ownedBy(this.doc, ownerId));
+  }
+
+  async delete(ownerId: string, id: string) {
+    return removeEntry(this.doc, ownerId, id);
+  }
+}
+
+let store: HistoryStore | null = null;
+
+/** The configured store: `HISTORY_STORE=memory` or the file store (default). */
+export function getHistoryStore(): HistoryStore {
+  if (!store) store = process.env.HISTORY_STORE === "memory" ? new MemoryHistoryStore() : new FileHistoryStore();
+  return store;
+}
+
+/** Swaps in another backend (e.g. a database-backed store). */
+export function setHistoryStore(next: HistoryStore) {
+  store = next;
+}
@@ -0,0 +1,23 @@
+import type { ProviderId } from "@/lib/providers/types";
+import type { TitleInput, TitleItem, TitleSummary } from "@/lib/titles/types";
+
+/** One saved generation: the brief it was made from and what came back. */
+export type HistoryEntry = {
+  id: string;
+  /** The brief as sent, so the entry can be reopened into the form or re-run. */
+  input: TitleInput;
+  items: TitleItem[];
+  summary: TitleSummary | null;
+  model: string;
+  provider: ProviderId;
+  createdAt: string;
+};
+
+/** Entries are kept per owner (the API key id) and listed newest first. */
+export interface HistoryStore {
+  insert(ownerId: string, entry: HistoryEntry): Promise<void>;
+  get(ownerId: string, id: string): Promise<HistoryEntry | null>;
+  list(ownerId: string): Promise<HistoryEntry[]>;
+  /** Returns the removed entry, or `null` when there was none. */
+  delete(ownerId: string, id: string): Promise<HistoryEntry | null>;
+}
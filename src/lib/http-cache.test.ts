@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { cachedJsonResponse, etagFor, wantsFreshResponse } from "./http-cache";
+
+const BODY = { titles: ["A"] };
+const GENERATED_AT = "2025-01-01T00:00:00.000Z";
+
+function request(headers: Record<string, string> = {}) {
+  return new Request("http://localhost/api/public/titles", { method: "POST", headers });
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("wantsFreshResponse", () => {
+  it("is true for no-cache and no-store", () => {
+    expect(wantsFreshResponse(request({ "Cache-Control": "no-cache" }))).toBe(true);
+    expect(wantsFreshResponse(request({ "Cache-Control": "max-age=0, no-store" }))).toBe(true);
+    expect(wantsFreshResponse(request({ "Cache-Control": "max-age=0" }))).toBe(false);
+    expect(wantsFreshResponse(request())).toBe(false);
+  });
+});
+
+describe("cachedJsonResponse", () => {
+  it("sets the ETag, Age and remaining max-age", async () => {
+    vi.useFakeTimers({ now: Date.parse(GENERATED_AT) + 100_000 });
+    const res = cachedJsonResponse(request(), BODY, { generatedAt: GENERATED_AT, ttlMs: 3_600_000 }, { "X-Extra": "1" });
+    expect(res.status).toBe(200);
+    expect(res.headers.get("ETag")).toBe(etagFor(JSON.stringify(BODY)));
+    expect(res.headers.get("Age")).toBe("100");
+    expect(res.headers.get("Cache-Control")).toBe("private, max-age=3500");
+    expect(res.headers.get("X-Extra")).toBe("1");
+    expect(await res.json()).toEqual(BODY);
+  });
+
+  it("never sends a negative max-age", () => {
+    vi.useFakeTimers({ now: Date.parse(GENERATED_AT) + 7_200_000 });
+    const res = cachedJsonResponse(request(), BODY, { generatedAt: GENERATED_AT, ttlMs: 3_600_000 });
+    expect(res.headers.get("Cache-Control")).toBe("private, max-age=0");
+  });
+
+  it("answers 304 when the client holds the same body", async () => {
+    const etag = etagFor(JSON.stringify(BODY));
+    for (const header of [etag, `W/${etag}`, `"other", ${etag}`, "*"]) {
+      const res = cachedJsonResponse(request({ "If-None-Match": header }), BODY, { generatedAt: GENERATED_AT, ttlMs: 3_600_000 });
+      expect(res.status).toBe(304);
+      expect(await res.text()).toBe("");
+    }
+  });
+
+  it("computes the ETag from etagSource when given", async () => {
+    const first = { titles: ["A"], meta: { cached: false } };
+    const hit = { titles: ["A"], meta: { cached: true } };
+    const freshness = { generatedAt: GENERATED_AT, ttlMs: 3_600_000, etagSource: first };
+    const etag = cachedJsonResponse(request(), first, freshness).headers.get("ETag")!;
+    const res = cachedJsonResponse(request({ "If-None-Match": etag }), hit, freshness);
+    expect(res.status).toBe(304);
+    expect(res.headers.get("ETag")).toBe(etag);
+  });
+
+  it("answers 200 for a stale ETag", () => {
+    const res = cachedJsonResponse(request({ "If-None-Match": '"stale"' }), BODY, { generatedAt: GENERATED_AT, ttlMs: 3_600_000 });
+    expect(res.status).toBe(200);
+  });
+});
@@ -0,0 +1,44 @@
+import { createHash } from "node:crypto";
+import { NextResponse } from "next/server";
+
+/** True when the client sent `Cache-Control: no-cache` (or `no-store`) and wants a fresh answer. */
+export function wantsFreshResponse(req: Request): boolean {
+  return /\bno-(cache|store)\b/i.test(req.headers.get("cache-control") || "");
+}
+
+export function etagFor(json: string): string {
+  return `"${createHash("sha1").update(json).digest("base64url")}"`;
+}
+
+function matchesEtag(req: Request, etag: string): boolean {
+  const header = req.headers.get("if-none-match");
+  if (!header) return false;
+  return header.split(",").some((tag) => tag.trim().replace(/^W\//, "") === etag || tag.trim() === "*");
+}
+
+/**
+ * JSON response with `ETag`, `Age` and a `Cache-Control` max-age covering
+ * what is left of the server-side cache TTL. Answers `304` when the client
+ * already holds this body. The ETag is computed from `freshness.etagSource`
+ * when given, so fields that differ per response (such as a cache-hit flag)
+ * don't change it.
+ */
+export function cachedJsonResponse(
+  req: Request,
+  body: unknown,
+  freshness: { generatedAt: string; ttlMs: number; etagSource?: unknown },
+  headers: Record<string, string> = {},
+): NextResponse {
+  const json = JSON.stringify(body);
+  const etag = etagFor(freshness.etagSource === undefined ? json : JSON.stringify(freshness.etagSource));
+  const ageSeconds = Math.max(0, Math.floor((Date.now() - Date.parse(freshness.generatedAt)) / 1000));
+  const maxAge = Math.max(0, Math.floor(freshness.ttlMs / 1000) - ageSeconds);
+  const cacheHeaders = {
+    ...headers,
+    ETag: etag,
+    Age: String(ageSeconds),
+    "Cache-Control": `private, max-age=${maxAge}`,
+  };
+  if (matchesEtag(req, etag)) return new NextResponse(null, { status: 304, headers: cacheHeaders });
+  return new NextResponse(json, { headers: { ...cacheHeaders, "Content-Type": "application/json" } });
+}
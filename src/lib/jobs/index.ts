@@ -0,0 +1,6 @@
+export { createJob, jobRequestSchema, parseJobRequest, publicJob } from "./jobs";
+export type { JobRequest } from "./jobs";
+export { FileJobStore, getJobStore, MemoryJobStore, setJobStore } from "./store";
+export type * from "./types";
+export { callbackAddressError, deliverWebhook, EVENT_HEADER, isPublicAddress, SIGNATURE_HEADER, signWebhook, verifyWebhookSignature, webhookSecret } from "./webhook";
+export { kickJobWorker, startJobWorker } from "./worker";
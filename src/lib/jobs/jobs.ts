@@ -0,0 +1,61 @@
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+import { titleBatchFields, uniqueItemIds } from "@/lib/titles";
+import { parseWithSchema, RequestValidationError } from "@/lib/validation";
+import { getJobStore } from "./store";
+import type { JobRecord } from "./types";
+import { callbackAddressError, webhookSecret } from "./webhook";
+
+export const CALLBACK_URL_MAX_LENGTH = 2000;
+
+/** A job is a batch (same `items` envelope as `/api/public/titles/batch`) plus an optional completion webhook. */
+export const jobRequestSchema = titleBatchFields
+  .extend({
+    callbackUrl: z.url({ protocol: /^https?$/, error: "callbackUrl must be an http(s) URL" }).max(CALLBACK_URL_MAX_LENGTH).optional(),
+  })
+  .superRefine(uniqueItemIds);
+
+export type JobRequest = z.infer<typeof jobRequestSchema>;
+
+/**
+ * Validates a job request body, throwing `RequestValidationError` with
+ * field-level issues. `callbackUrl` must resolve to public addresses only.
+ */
+export async function parseJobRequest(body: unknown): Promise<JobRequest> {
+  const request = parseWithSchema(jobRequestSchema, body);
+  if (!request.callbackUrl) return request;
+  if (!webhookSecret()) {
+    throw new RequestValidationError([{ path: "callbackUrl", message: "Webhooks are not enabled on this server" }]);
+  }
+  const addressError = await callbackAddressError(request.callbackUrl);
+  if (addressError) throw new RequestValidationError([{ path: "callbackUrl", message: addressError }]);
+  return request;
+}
+
+/** Stores a new queued job. The worker picks it up from the store. */
+export async function createJob({ callbackUrl, ...request }: JobRequest, keyId: string | null): Promise<JobRecord> {
+  const job: JobRecord = {
+    id: randomUUID(),
+    status: "queued",
+    request,
+    progress: { total: request.items.length, completed: 0, succeeded: 0, failed: 0 },
+    results: [],
+    error: null,
+    callbackUrl: callbackUrl ?? null,
+    webhook: callbackUrl ? { status: "pending", attempts: 0, lastError: null, deliveredAt: null } : null,
+    keyId,
+    attempts: 0,
+    leaseExpiresAt: null,
+    createdAt: new Date().toISOString(),
+    startedAt: null,
+    finishedAt: null,
+  };
+  await getJobStore().insert(job);
+  return job;
+}
+
+/** The job as API clients see it: no request echo, owner or worker bookkeeping. */
+export function publicJob(job: JobRecord) {
+  const { id, status, progress, results, error, webhook, createdAt, startedAt, finishedAt } = job;
+  return { id, status, progress, results, error, webhook, createdAt, startedAt, finishedAt };
+}
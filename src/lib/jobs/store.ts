@@ -0,0 +1,125 @@
+import { dataPath, JsonFile } from "@/lib/storage/json-file";
+import type { JobRecord, JobStore } from "./types";
+
+type JobsDocument = {
+  jobs: JobRecord[];
+};
+
+function claimable(job: JobRecord, now: Date): boolean {
+  if (job.status === "queued") return true;
+  return job.status === "running" && job.leaseExpiresAt !== null && Date.parse(job.leaseExpiresAt) <= now.getTime();
+}
+
+function claimNext(doc: JobsDocument, now: Date, leaseMs: number): JobRecord | null {
+  const job = doc.jobs.find((j) => claimable(j, now));
+  if (!job) return null;
+  job.status = "running";
+  job.attempts += 1;
+  job.startedAt ??= now.toISOString();
+  job.leaseExpiresAt = new Date(now.getTime() + leaseMs).toISOString();
+  return structuredClone(job);
+}
+
+function leaseExpired(job: JobRecord, now: Date): boolean {
+  return job.leaseExpiresAt === null || Date.parse(job.leaseExpiresAt) <= now.getTime();
+}
+
+function claimNextDelivery(doc: JobsDocument, now: Date, leaseMs: number): JobRecord | null {
+  const job = doc.jobs.find((j) => j.finishedAt !== null && j.webhook?.status === "pending" && leaseExpired(j, now));
+  if (!job) return null;
+  job.leaseExpiresAt = new Date(now.getTime() + leaseMs).toISOString();
+  return structuredClone(job);
+}
+
+function patchJob(doc: JobsDocument, id: string, patch: Partial<JobRecord>): JobRecord | null {
+  const index = doc.jobs.findIndex((j) => j.id === id);
+  if (index === -1) return null;
+  doc.jobs[index] = { ...doc.jobs[index], ...patch, id };
+  return doc.jobs[index];
+}
+
+function pruneJobs(doc: JobsDocument, before: Date): number {
+  const keep = doc.jobs.filter((j) => !j.finishedAt || Date.parse(j.finishedAt) >= before.getTime());
+  const removed = doc.jobs.length - keep.length;
+  doc.jobs = keep;
+  return removed;
+}
+
+/** All jobs in one JSON file (`JOBS_FILE`, default `.data/jobs.json`). Fine for one server process. */
+export class FileJobStore implements JobStore {
+  private readonly file: JsonFile<JobsDocument>;
+
+  constructor(filePath = process.env.JOBS_FILE || dataPath("jobs.json")) {
+    this.file = new JsonFile<JobsDocument>(filePath, () => ({ jobs: [] }));
+  }
+
+  async insert(job: JobRecord) {
+    await this.file.update((doc) => {
+      doc.jobs.push(job);
+    });
+  }
+
+  async get(id: string) {
+    return (await this.file.read()).jobs.find((j) => j.id === id) ?? null;
+  }
+
+  update(id: string, patch: Partial<JobRecord>) {
+    return this.file.update((doc) => patchJob(doc, id, patch));
+  }
+
+  claim(now: Date, leaseMs: number) {
+    return this.file.update((doc) => claimNext(doc, now, leaseMs));
+  }
+
+  claimDelivery(now: Date, leaseMs: number) {
+    return this.file.update((doc) => claimNextDelivery(doc, now, leaseMs));
+  }
+
+  prune(before: Date) {
+    return this.file.update((doc) => pruneJobs(doc, before));
+  }
+}
+
+/** Process-local store; jobs are lost on restart. */
+export class MemoryJobStore implements JobStore {
+  private doc: JobsDocument = { jobs: [] };
+
+  async insert(job: JobRecord) {
+    this.doc.jobs.push(structuredClone(job));
+  }
+
+  async get(id: string) {
+    const job = this.doc.jobs.find((j) => j.id === id);
+    return job ? structuredClone(job) : null;
+  }
+
+  async update(id: string, patch: Partial<JobRecord>) {
+    const job = patchJob(this.doc, id, patch);
+    return job ? structuredClone(job) : null;
+  }
+
+  async claim(now: Date, leaseMs: number) {
+    return claimNext(this.doc, now, leaseMs);
+  }
+
+  async claimDelivery(now: Date, leaseMs: number) {
+    return claimNextDelivery(this.doc, now, leaseMs);
+  }
+
+  async prune(before: Date) {
+    return pruneJobs(this.doc, before);
+  }
+}
+
+let store: JobStore | null = null;
+
+/** The configured store: `JOBS_STORE=memory` or the file store (default). */
+export function getJobStore(): JobStore {
+  if (!store) store = process.env.JOBS_STORE === "memory" ? new MemoryJobStore() : new FileJobStore();
+  return store;
+}
+
+/** Swaps in another backend (e.g. SQLite or Postgres). */
+export function setJobStore(next: JobStore) {
+  store = next;
+}
@@ -0,0 +1,52 @@
+import type { TitleBatchRequest, TitleBatchResult, TitleBatchSummary } from "@/lib/titles";
+
+/** `completed` means every item ran (items may still have failed); `failed` means the job itself could not finish. */
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+
+export type JobProgress = TitleBatchSummary & {
+  /** Items finished so far, successful or not. */
+  completed: number;
+};
+
+export type WebhookDelivery = {
+  status: "pending" | "delivered" | "failed";
+  attempts: number;
+  lastError: string | null;
+  deliveredAt: string | null;
+};
+
+export type JobRecord = {
+  id: string;
+  status: JobStatus;
+  request: TitleBatchRequest;
+  progress: JobProgress;
+  /** In completion order while running, request order once finished. */
+  results: TitleBatchResult[];
+  error: string | null;
+  callbackUrl: string | null;
+  webhook: WebhookDelivery | null;
+  /** API key that created the job; only that key can read it. */
+  keyId: string | null;
+  /** Times a worker has picked the job up; a job whose worker died is retried a few times. */
+  attempts: number;
+  /**
+   * A worker owns a running job, or a finished job's pending webhook, until
+   * this time; after it the job or its delivery can be claimed again.
+   */
+  leaseExpiresAt: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+};
+
+export interface JobStore {
+  insert(job: JobRecord): Promise<void>;
+  get(id: string): Promise<JobRecord | null>;
+  update(id: string, patch: Partial<Omit<JobRecord, "id">>): Promise<JobRecord | null>;
+  /** Atomically marks the oldest queued job (or a running one whose lease expired) as running under a new lease. */
+  claim(now: Date, leaseMs: number): Promise<JobRecord | null>;
+  /** Atomically leases the oldest finished job whose webhook is still pending and not leased, e.g. after its worker died mid-delivery. */
+  claimDelivery(now: Date, leaseMs: number): Promise<JobRecord | null>;
+  /** Deletes finished jobs older than `before`; returns how many were removed. */
+  prune(before: Date): Promise<number>;
+}
@@ -0,0 +1,137 @@
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { JobRecord } from "./types";
+import { callbackAddressError, deliverWebhook, isPublicAddress, signWebhook, verifyWebhookSignature } from "./webhook";
+
+// `.test` names never resolve for real: "hooks.test" points at the local receiver and "rebound.test" at nothing
+vi.mock("node:dns/promises", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node:dns/promises")>();
+  return {
+    ...actual,
+    lookup: vi.fn((host: string, options: object) => {
+      if (host === "hooks.test") return Promise.resolve([{ address: "127.0.0.1", family: 4 }]);
+      if (host.endsWith(".test")) return Promise.reject(new Error("ENOTFOUND"));
+      return actual.lookup(host, options);
+    }),
+  };
+});
+
+describe("isPublicAddress", () => {
+  it("accepts public addresses", () => {
+    expect(isPublicAddress("93.184.215.14")).toBe(true);
+    expect(isPublicAddress("2606:4700::6810:85e5")).toBe(true);
+  });
+
+  it("rejects loopback, private, link-local and metadata addresses", () => {
+    for (const address of ["127.0.0.1", "10.1.2.3", "172.20.0.1", "192.168.1.1", "169.254.169.254", "100.100.100.200", "0.0.0.0", "::1", "fd00:ec2::254", "fe80::1"]) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+
+  it("judges IPv4-mapped IPv6 addresses by their IPv4 part", () => {
+    expect(isPublicAddress("::ffff:127.0.0.1")).toBe(false);
+    expect(isPublicAddress("::ffff:93.184.215.14")).toBe(true);
+  });
+
+  it("rejects anything that is not an IP address", () => {
+    expect(isPublicAddress("example.com")).toBe(false);
+  });
+});
+
+describe("callbackAddressError", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("rejects private IP literals and localhost", async () => {
+    expect(await callbackAddressError("http://169.254.169.254/latest/meta-data")).toMatch(/public address/);
+    expect(await callbackAddressError("http://[::1]:8080/hook")).toMatch(/public address/);
+    expect(await callbackAddressError("http://localhost/hook")).toMatch(/public address/);
+  });
+
+  it("accepts public IP literals", async () => {
+    expect(await callbackAddressError("https://93.184.215.14/hook")).toBeNull();
+  });
+
+  it("allows private addresses when JOBS_WEBHOOK_ALLOW_PRIVATE is set", async () => {
+    vi.stubEnv("JOBS_WEBHOOK_ALLOW_PRIVATE", "true");
+    expect(await callbackAddressError("http://127.0.0.1/hook")).toBeNull();
+  });
+});
+
+describe("verifyWebhookSignature", () => {
+  const body = JSON.stringify({ event: "job.completed" });
+  const now = Date.UTC(2025, 0, 1);
+  const timestamp = now / 1000;
+
+  it("accepts a fresh signature of the same body", () => {
+    expect(verifyWebhookSignature(body, signWebhook(body, "secret", timestamp), "secret", now)).toBe(true);
+  });
+
+  it("rejects another body, another secret or a stale timestamp", () => {
+    const header = signWebhook(body, "secret", timestamp);
+    expect(verifyWebhookSignature(`${body} `, header, "secret", now)).toBe(false);
+    expect(verifyWebhookSignature(body, header, "other", now)).toBe(false);
+    expect(verifyWebhookSignature(body, header, "secret", now + 301_000)).toBe(false);
+  });
+});
+
+describe("deliverWebhook", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  async function receiver(handler: Parameters<typeof createServer>[1]) {
+    const server = createServer(handler);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    return { server, port: (server.address() as AddressInfo).port };
+  }
+
+  const job = (callbackUrl: string) => ({ id: "job_1", callbackUrl }) as JobRecord;
+
+  it("posts a signed body to the address the host resolved to", async () => {
+    vi.stubEnv("JOBS_WEBHOOK_SECRET", "secret");
+    vi.stubEnv("JOBS_WEBHOOK_ALLOW_PRIVATE", "true");
+    const received: { body: string; signature: string }[] = [];
+    const { server, port } = await receiver((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push({ body, signature: String(req.headers["x-aipye-signature"]) });
+        res.end();
+      });
+    });
+    try {
+      const delivery = await deliverWebhook(job(`http://hooks.test:${port}/hook`), "job.completed", { event: "job.completed" });
+      expect(delivery).toMatchObject({ status: "delivered", attempts: 1, lastError: null });
+      expect(received).toHaveLength(1);
+      expect(verifyWebhookSignature(received[0].body, received[0].signature, "secret")).toBe(true);
+    } finally {
+      server.close();
+    }
+  });
+
+  it("checks every redirect target before following it", async () => {
+    vi.stubEnv("JOBS_WEBHOOK_SECRET", "secret");
+    vi.stubEnv("JOBS_WEBHOOK_ALLOW_PRIVATE", "true");
+    let hits = 0;
+    const { server, port } = await receiver((_req, res) => {
+      hits++;
+      res.writeHead(307, { Location: "http://rebound.test/latest/meta-data" }).end();
+    });
+    try {
+      const delivery = await deliverWebhook(job(`http://hooks.test:${port}/hook`), "job.completed", {});
+      expect(delivery).toMatchObject({ status: "failed", attempts: 1, lastError: "Redirect target host does not resolve" });
+      expect(hits).toBe(1);
+    } finally {
+      server.close();
+    }
+  });
+
+  it("fails without retrying when the host resolves to a private address", async () => {
+    vi.stubEnv("JOBS_WEBHOOK_SECRET", "secret");
+    const delivery = await deliverWebhook(job("http://hooks.test/hook"), "job.completed", {});
+    expect(delivery).toMatchObject({ status: "failed", attempts: 1, lastError: "callbackUrl must resolve to a public address" });
+  });
+});
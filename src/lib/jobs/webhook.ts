@@ -0,0 +1,179 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { LookupAddress } from "node:dns";
+import { lookup } from "node:dns/promises";
+import { request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { BlockList, isIP } from "node:net";
+import type { LookupFunction } from "node:net";
+import type { JobRecord, WebhookDelivery } from "./types";
+
+export const SIGNATURE_HEADER = "X-Aipye-Signature";
+export const EVENT_HEADER = "X-Aipye-Event";
+
+/** Delay before each retry; the first attempt is immediate. */
+const RETRY_DELAYS_MS = [2_000, 10_000, 30_000];
+const ATTEMPT_TIMEOUT_MS = 10_000;
+/** Redirects followed per attempt; every hop is resolved and checked like `callbackUrl` itself. */
+const MAX_REDIRECTS = 3;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+/** Signatures older than this are rejected by `verifyWebhookSignature`, limiting replays. */
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/** `JOBS_WEBHOOK_SECRET` signs completion webhooks; without it `callbackUrl` is rejected. */
+export function webhookSecret(): string | null {
+  return process.env.JOBS_WEBHOOK_SECRET || null;
+}
+
+/** `JOBS_WEBHOOK_ALLOW_PRIVATE=true` lets callbacks reach private addresses, e.g. a receiver on localhost in development. */
+function allowPrivateCallbacks(): boolean {
+  return process.env.JOBS_WEBHOOK_ALLOW_PRIVATE === "true";
+}
+
+// Loopback, private, link-local (including cloud metadata at 169.254.169.254), shared, multicast and reserved ranges
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16], ["172.16.0.0", 12],
+  ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [["::", 128], ["::1", 128], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+/** True for an IP address a webhook may be sent to; IPv4-mapped IPv6 addresses are judged by their IPv4 part. */
+export function isPublicAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return isPublicAddress(mapped[1]);
+  const version = isIP(address);
+  if (!version) return false;
+  return !PRIVATE_RANGES.check(address, version === 4 ? "ipv4" : "ipv6");
+}
+
+type ResolvedCallback = { address: LookupAddress; error: null } | { address: null; error: string };
+
+// Resolves a callback host to the address its request is pinned to, checking every address the host has
+async function resolveCallback(url: string, field = "callbackUrl"): Promise<ResolvedCallback> {
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  let addresses: LookupAddress[];
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch {
+    addresses = [];
+  }
+  if (!addresses.length) return { address: null, error: `${field} host does not resolve` };
+  if (!allowPrivateCallbacks() && !addresses.every(({ address }) => isPublicAddress(address))) {
+    return { address: null, error: `${field} must resolve to a public address` };
+  }
+  return { address: addresses[0], error: null };
+}
+
+/**
+ * Resolves the callback's host and explains why it may not be called: it
+ * does not resolve, or one of its addresses is private. `null` when it may.
+ */
+export async function callbackAddressError(url: string): Promise<string | null> {
+  return (await resolveCallback(url)).error;
+}
+
+function hmac(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/** `t=<unix seconds>,v1=<hex HMAC-SHA-256 of "<t>.<body>">`, the value of `X-Aipye-Signature`. */
+export function signWebhook(body: string, secret: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${hmac(secret, timestamp, body)}`;
+}
+
+/** Receiver-side check of a signature header against the raw request body. */
+export function verifyWebhookSignature(body: string, header: string, secret: string, now = Date.now()): boolean {
+  const parts = Object.fromEntries(header.split(",").map((part) => part.trim().split("=", 2) as [string, string]));
+  const timestamp = Number(parts["t"]);
+  if (!Number.isInteger(timestamp) || !parts["v1"]) return false;
+  if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+  const expected = Buffer.from(hmac(secret, timestamp, body));
+  const actual = Buffer.from(parts["v1"]);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Connects to the address that was checked instead of resolving the host again, so DNS cannot be rebound in between
+function pinnedLookup({ address, family }: LookupAddress): LookupFunction {
+  return (_hostname, options, callback) => {
+    if (options.all) callback(null, [{ address, family }]);
+    else callback(null, address, family);
+  };
+}
+
+type CallbackResponse = { status: number; location: string | null };
+
+function postPinned(url: string, address: LookupAddress, headers: Record<string, string>, body: string, signal: AbortSignal): Promise<CallbackResponse> {
+  const request = new URL(url).protocol === "https:" ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      { method: "POST", headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) }, lookup: pinnedLookup(address), signal },
+      (res) => {
+        // The answer body is not used; drain it so the socket is released
+        res.resume();
+        resolve({ status: res.statusCode ?? 0, location: res.headers.location ?? null });
+      },
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+/**
+ * One delivery attempt: resolves and checks the host, POSTs to the checked
+ * address and follows up to `MAX_REDIRECTS` redirects, checking each hop the
+ * same way. An address error is returned as `blocked`, since retrying would
+ * not change it.
+ */
+async function attemptDelivery(callbackUrl: string, headers: Record<string, string>, body: string): Promise<{ ok: boolean; error: string | null; blocked: boolean }> {
+  const signal = AbortSignal.timeout(ATTEMPT_TIMEOUT_MS);
+  let url = callbackUrl;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const resolved = await resolveCallback(url, hop === 0 ? "callbackUrl" : "Redirect target");
+    if (resolved.error !== null) return { ok: false, error: resolved.error, blocked: true };
+    const res = await postPinned(url, resolved.address, headers, body, signal);
+    if (res.status >= 200 && res.status < 300) return { ok: true, error: null, blocked: false };
+    if (!REDIRECT_STATUSES.has(res.status) || !res.location) return { ok: false, error: `Callback responded ${res.status}`, blocked: false };
+    const next = new URL(res.location, url);
+    if (next.protocol !== "http:" && next.protocol !== "https:") return { ok: false, error: "Callback redirected to a non-http(s) URL", blocked: true };
+    url = next.toString();
+  }
+  return { ok: false, error: "Callback redirected too many times", blocked: true };
+}
+
+/**
+ * POSTs `payload` to the job's `callbackUrl`, retrying non-2xx answers and
+ * network errors with backoff. Each attempt is signed afresh so its timestamp
+ * stays current. Before every attempt and redirect the host is resolved and
+ * checked again, and the connection goes to that checked address, so the
+ * callback cannot be repointed at a private address after the job was
+ * accepted. Never throws; the outcome is returned for the job record.
+ */
+export async function deliverWebhook(job: JobRecord, event: string, payload: unknown): Promise<WebhookDelivery> {
+  const secret = webhookSecret();
+  const delivery: WebhookDelivery = { status: "failed", attempts: 0, lastError: null, deliveredAt: null };
+  if (!job.callbackUrl) return delivery;
+  if (!secret) return { ...delivery, lastError: "JOBS_WEBHOOK_SECRET is not set" };
+
+  const body = JSON.stringify(payload);
+  for (let attempt = 0; attempt <= RETRY_DELAYS_MS.length; attempt++) {
+    if (attempt > 0) await sleep(RETRY_DELAYS_MS[attempt - 1]);
+    delivery.attempts = attempt + 1;
+    const headers = { "Content-Type": "application/json", [EVENT_HEADER]: event, [SIGNATURE_HEADER]: signWebhook(body, secret) };
+    try {
+      const result = await attemptDelivery(job.callbackUrl, headers, body);
+      if (result.ok) return { ...delivery, status: "delivered", lastError: null, deliveredAt: new Date().toISOString() };
+      delivery.lastError = result.error;
+      if (result.blocked) return delivery;
+    } catch (err) {
+      delivery.lastError = err instanceof Error ? err.message : String(err);
+    }
+  }
+  return delivery;
+}
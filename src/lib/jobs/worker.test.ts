@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { runTitleBatch } from "@/lib/titles";
+import type { TitleBatchItem, TitleBatchResult } from "@/lib/titles";
+import { MemoryJobStore, setJobStore } from "./store";
+import type { JobRecord, JobStore } from "./types";
+import { deliverWebhook } from "./webhook";
+import { kickJobWorker } from "./worker";
+
+vi.mock("@/lib/titles", async (importOriginal) => ({ ...(await importOriginal<typeof import("@/lib/titles")>()), runTitleBatch: vi.fn() }));
+vi.mock("./webhook", () => ({ deliverWebhook: vi.fn() }));
+
+const DELIVERED = { status: "delivered", attempts: 1, lastError: null, deliveredAt: "2025-01-01T00:00:05.000Z" } as const;
+
+function result(id: string): TitleBatchResult {
+  return { id, ok: false, status: 502, error: "No titles produced" };
+}
+
+function job(fields: Partial<JobRecord> = {}): JobRecord {
+  return {
+    id: "job_1",
+    status: "queued",
+    request: { items: [{ id: "a" }, { id: "b" }] as TitleBatchItem[] },
+    progress: { total: 2, completed: 0, succeeded: 0, failed: 0 },
+    results: [],
+    error: null,
+    callbackUrl: null,
+    webhook: null,
+    keyId: null,
+    attempts: 0,
+    leaseExpiresAt: null,
+    createdAt: "2025-01-01T00:00:00.000Z",
+    startedAt: null,
+    finishedAt: null,
+    ...fields,
+  };
+}
+
+let store: JobStore;
+
+// Kicks the worker and waits until the job has finished and any webhook outcome is recorded
+async function runUntilSettled(id: string): Promise<JobRecord> {
+  kickJobWorker();
+  let settled: JobRecord | null = null;
+  await vi.waitFor(async () => {
+    settled = await store.get(id);
+    expect(settled?.finishedAt).not.toBeNull();
+    expect(settled?.webhook?.status ?? null).not.toBe("pending");
+  });
+  return settled!;
+}
+
+beforeEach(() => {
+  vi.stubEnv("JOBS_POLL_SECONDS", "3600");
+  store = new MemoryJobStore();
+  setJobStore(store);
+  vi.mocked(runTitleBatch).mockImplementation(async function* (batch) {
+    for (const item of [...batch.items].reverse()) yield result(item.id);
+  });
+  vi.mocked(deliverWebhook).mockResolvedValue({ ...DELIVERED });
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.clearAllMocks();
+});
+
+describe("job worker", () => {
+  it("runs a queued job and returns its results in request order", async () => {
+    await store.insert(job());
+    const finished = await runUntilSettled("job_1");
+    expect(finished).toMatchObject({ status: "completed", attempts: 1, leaseExpiresAt: null, progress: { total: 2, completed: 2, failed: 2 } });
+    expect(finished.results.map((r) => r.id)).toEqual(["a", "b"]);
+    expect(deliverWebhook).not.toHaveBeenCalled();
+  });
+
+  it("re-claims a running job whose lease expired and only runs the remaining items", async () => {
+    await store.insert(job({ status: "running", attempts: 1, results: [result("a")], leaseExpiresAt: "2025-01-01T00:00:01.000Z" }));
+    const finished = await runUntilSettled("job_1");
+    expect(vi.mocked(runTitleBatch).mock.calls[0][0].items.map((item) => item.id)).toEqual(["b"]);
+    expect(finished).toMatchObject({ status: "completed", attempts: 2 });
+    expect(finished.results.map((r) => r.id)).toEqual(["a", "b"]);
+  });
+
+  it("leaves a running job alone while its lease holds", async () => {
+    await store.insert(job({ status: "running", attempts: 1, leaseExpiresAt: new Date(Date.now() + 60_000).toISOString() }));
+    kickJobWorker();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(runTitleBatch).not.toHaveBeenCalled();
+    expect((await store.get("job_1"))?.status).toBe("running");
+  });
+
+  it("fails a job that was interrupted too many times", async () => {
+    await store.insert(job({ status: "running", attempts: 3, leaseExpiresAt: "2025-01-01T00:00:01.000Z" }));
+    const finished = await runUntilSettled("job_1");
+    expect(finished).toMatchObject({ status: "failed", error: "Job was interrupted too many times" });
+    expect(runTitleBatch).not.toHaveBeenCalled();
+  });
+
+  it("delivers the webhook with the finished job, leased while in flight, and records the outcome", async () => {
+    const pending = { status: "pending", attempts: 0, lastError: null, deliveredAt: null } as const;
+    let during: JobRecord | null = null;
+    vi.mocked(deliverWebhook).mockImplementationOnce(async ({ id }) => {
+      during = await store.get(id);
+      return { ...DELIVERED };
+    });
+    await store.insert(job({ callbackUrl: "https://hooks.example/titles", webhook: pending }));
+    const finished = await runUntilSettled("job_1");
+    expect(during).toMatchObject({ status: "completed", webhook: pending, leaseExpiresAt: expect.any(String) });
+    expect(deliverWebhook).toHaveBeenCalledWith(expect.objectContaining({ id: "job_1", status: "completed" }), "job.completed", expect.objectContaining({ event: "job.completed" }));
+    expect(finished).toMatchObject({ webhook: DELIVERED, leaseExpiresAt: null });
+  });
+
+  it("retries a webhook left pending by a worker that stopped mid-delivery", async () => {
+    const pending = { status: "pending", attempts: 0, lastError: null, deliveredAt: null } as const;
+    const finished = { status: "completed", callbackUrl: "https://hooks.example/titles", webhook: pending, finishedAt: new Date().toISOString() } as const;
+    await store.insert(job({ ...finished, id: "stale", leaseExpiresAt: finished.finishedAt }));
+    await store.insert(job({ ...finished, id: "leased", leaseExpiresAt: new Date(Date.now() + 60_000).toISOString() }));
+    const redelivered = await runUntilSettled("stale");
+    expect(redelivered).toMatchObject({ webhook: DELIVERED, leaseExpiresAt: null });
+    expect(deliverWebhook).toHaveBeenCalledTimes(1);
+    expect((await store.get("leased"))?.webhook?.status).toBe("pending");
+  });
+});
@@ -0,0 +1,128 @@
+import { runTitleBatch, summarizeBatch } from "@/lib/titles";
+import type { TitleBatchResult } from "@/lib/titles";
+import { publicJob } from "./jobs";
+import { getJobStore } from "./store";
+import type { JobRecord } from "./types";
+import { deliverWebhook } from "./webhook";
+
+/** A job picked up this many times without finishing (its worker kept dying) is marked failed. */
+const MAX_ATTEMPTS = 3;
+
+function envSeconds(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return (Number.isFinite(value) && value > 0 ? value : fallback) * 1000;
+}
+
+const pollMs = () => envSeconds("JOBS_POLL_SECONDS", 2);
+const leaseMs = () => envSeconds("JOBS_LEASE_SECONDS", 300);
+const leaseFromNow = () => new Date(Date.now() + leaseMs()).toISOString();
+const retentionMs = () => envSeconds("JOBS_RETENTION_HOURS", 168) * 3600;
+
+type WorkerState = {
+  started: boolean;
+  busy: boolean;
+  /** Webhook deliveries in flight; their retries run beside the queue instead of holding it. */
+  deliveries: Set<Promise<void>>;
+};
+
+// Kept on globalThis: instrumentation and each route bundle may load their own
+// copy of this module, and there must be only one loop per process.
+const STATE_KEY = Symbol.for("aipye.jobs.worker");
+
+function workerState(): WorkerState {
+  const scope = globalThis as typeof globalThis & { [STATE_KEY]?: WorkerState };
+  return (scope[STATE_KEY] ??= { started: false, busy: false, deliveries: new Set() });
+}
+
+async function runJob(job: JobRecord): Promise<void> {
+  const store = getJobStore();
+  if (job.attempts > MAX_ATTEMPTS) {
+    await finish(job, { status: "failed", error: "Job was interrupted too many times" });
+    return;
+  }
+
+  // A retried job keeps the results it already has and only runs the rest
+  const results: TitleBatchResult[] = [...job.results];
+  const done = new Set(results.map((r) => r.id));
+  const remaining = { ...job.request, items: job.request.items.filter((item) => !done.has(item.id)) };
+  try {
+    for await (const result of runTitleBatch(remaining)) {
+      results.push(result);
+      await store.update(job.id, {
+        results,
+        progress: { ...summarizeBatch(results), total: job.progress.total, completed: results.length },
+        leaseExpiresAt: leaseFromNow(),
+      });
+    }
+    const order = new Map(job.request.items.map((item, index) => [item.id, index]));
+    results.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+    await finish(job, { status: "completed", results });
+  } catch (err) {
+    await finish(job, { status: "failed", results, error: err instanceof Error ? err.message : String(err) });
+  }
+}
+
+// With a callback the lease now covers the pending webhook, so another worker only takes the delivery over if this one dies
+async function finish(job: JobRecord, patch: Partial<JobRecord>): Promise<void> {
+  const leaseExpiresAt = job.callbackUrl ? leaseFromNow() : null;
+  const finished = await getJobStore().update(job.id, { ...patch, leaseExpiresAt, finishedAt: new Date().toISOString() });
+  if (finished?.callbackUrl) trackDelivery(deliver(finished));
+}
+
+async function deliver(job: JobRecord): Promise<void> {
+  const event = job.status === "completed" ? "job.completed" : "job.failed";
+  const webhook = await deliverWebhook(job, event, { event, job: publicJob(job) });
+  await getJobStore().update(job.id, { webhook, leaseExpiresAt: null });
+}
+
+// Not awaited: the next job starts while the webhook is still being retried
+function trackDelivery(delivery: Promise<void>): void {
+  const { deliveries } = workerState();
+  const tracked: Promise<void> = delivery
+    .catch((err) => console.error("Webhook delivery failed", err))
+    .finally(() => deliveries.delete(tracked));
+  deliveries.add(tracked);
+}
+
+/**
+ * Picks up webhooks left pending by a worker that stopped mid-delivery, then
+ * claims and runs queued jobs one at a time until none are left.
+ */
+async function drain(): Promise<void> {
+  const state = workerState();
+  if (state.busy) return;
+  state.busy = true;
+  try {
+    const store = getJobStore();
+    for (let job = await store.claimDelivery(new Date(), leaseMs()); job; job = await store.claimDelivery(new Date(), leaseMs())) {
+      trackDelivery(deliver(job));
+    }
+    for (let job = await store.claim(new Date(), leaseMs()); job; job = await store.claim(new Date(), leaseMs())) {
+      await runJob(job);
+    }
+    await store.prune(new Date(Date.now() - retentionMs()));
+  } catch (err) {
+    console.error("Job worker failed", err);
+  } finally {
+    state.busy = false;
+  }
+}
+
+/**
+ * Starts the in-process worker loop (once per process): it polls the job
+ * store every `JOBS_POLL_SECONDS` and runs jobs through the batch pipeline.
+ * Set `JOBS_WORKER=off` to keep a process from running jobs.
+ */
+export function startJobWorker(): void {
+  const state = workerState();
+  if (state.started || process.env.JOBS_WORKER === "off") return;
+  state.started = true;
+  setInterval(() => void drain(), pollMs()).unref();
+  void drain();
+}
+
+/** Wakes the worker right away, e.g. after a job was queued. */
+export function kickJobWorker(): void {
+  startJobWorker();
+  if (process.env.JOBS_WORKER !== "off") void drain();
+}
@@ -0,0 +1,14 @@
+import type { StreamSerializer } from "@/lib/stream-response";
+
+export function wantsNdjson(req: Request): boolean {
+  const accept = req.headers.get("accept") || "";
+  if (accept.includes("application/x-ndjson")) return true;
+  const stream = new URL(req.url).searchParams.get("stream");
+  return stream === "1" || stream === "true";
+}
+
+/** Newline-delimited JSON framing for `streamResponse`: one object per line. */
+export const ndjson: StreamSerializer<unknown> = {
+  contentType: "application/x-ndjson; charset=utf-8",
+  serialize: (value) => `${JSON.stringify(value)}\n`,
+};
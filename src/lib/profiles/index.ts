@@ -0,0 +1,4 @@
+export { createProfile, parseProfileFields, parseProfilePatch, profileFieldsSchema, profilePatchSchema } from "./profiles";
+export { FileProfileStore, getProfileStore, MemoryProfileStore, setProfileStore } from "./store";
+export { CAPITALIZATION_STYLES, EMOJI_POLICIES } from "./types";
+export type * from "./types";
@@ -0,0 +1,57 @@
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+import { parseWithSchema, RequestValidationError } from "@/lib/validation";
+import { getProfileStore } from "./store";
+import { CAPITALIZATION_STYLES, EMOJI_POLICIES } from "./types";
+import type { VoiceProfile, VoiceProfileFields } from "./types";
+
+export const PROFILE_NAME_MAX_LENGTH = 100;
+export const PROFILE_LIST_MAX = 50;
+export const PROFILE_WORD_MAX_LENGTH = 60;
+export const PROFILE_EXAMPLES_MAX = 20;
+
+const wordList = z
+  .array(z.string().trim().min(1, "entries must not be empty").max(PROFILE_WORD_MAX_LENGTH))
+  .max(PROFILE_LIST_MAX)
+  .transform((words) => Array.from(new Set(words)));
+
+export const profileFieldsSchema = z.object({
+  name: z.string().trim().min(1, "name must not be empty").max(PROFILE_NAME_MAX_LENGTH),
+  tone: wordList,
+  bannedWords: wordList,
+  preferredWords: wordList,
+  capitalization: z.enum(CAPITALIZATION_STYLES),
+  emoji: z.enum(EMOJI_POLICIES),
+  exampleTitles: z.array(z.string().trim().min(1, "entries must not be empty").max(100)).max(PROFILE_EXAMPLES_MAX),
+});
+
+/** Every field optional, for `PATCH`. */
+export const profilePatchSchema = profileFieldsSchema.partial();
+
+const DEFAULT_FIELDS: Omit<VoiceProfileFields, "name"> = {
+  tone: [],
+  bannedWords: [],
+  preferredWords: [],
+  capitalization: "any",
+  emoji: "none",
+  exampleTitles: [],
+};
+
+/** Validates a profile body. `name` is required; the other fields default to an unconstrained voice. */
+export function parseProfileFields(body: unknown): VoiceProfileFields {
+  const { name, ...fields } = parseWithSchema(profilePatchSchema, body);
+  if (!name) throw new RequestValidationError([{ path: "name", message: "name is required" }]);
+  return { name, ...DEFAULT_FIELDS, ...fields };
+}
+
+/** Validates a partial profile body for updates, throwing `RequestValidationError`. */
+export function parseProfilePatch(body: unknown): Partial<VoiceProfileFields> {
+  return parseWithSchema(profilePatchSchema, body);
+}
+
+export async function createProfile(fields: VoiceProfileFields): Promise<VoiceProfile> {
+  const now = new Date().toISOString();
+  const profile: VoiceProfile = { id: randomUUID(), ...fields, createdAt: now, updatedAt: now };
+  await getProfileStore().insert(profile);
+  return profile;
+}
@@ -0,0 +1,89 @@
+import { dataPath, JsonFile } from "@/lib/storage/json-file";
+import type { ProfileStore, VoiceProfile } from "./types";
+
+type ProfilesDocument = {
+  profiles: VoiceProfile[];
+};
+
+function patchProfile(doc: ProfilesDocument, id: string, patch: Partial<VoiceProfile>): VoiceProfile | null {
+  const index = doc.profiles.findIndex((p) => p.id === id);
+  if (index === -1) return null;
+  doc.profiles[index] = { ...doc.profiles[index], ...patch, id };
+  return doc.profiles[index];
+}
+
+function removeProfile(doc: ProfilesDocument, id: string): VoiceProfile | null {
+  const index = doc.profiles.findIndex((p) => p.id === id);
+  return index === -1 ? null : doc.profiles.splice(index, 1)[0];
+}
+
+/** All profiles in one JSON file (`PROFILES_FILE`, default `.data/profiles.json`). */
+export class FileProfileStore implements ProfileStore {
+  private readonly file: JsonFile<ProfilesDocument>;
+
+  constructor(filePath = process.env.PROFILES_FILE || dataPath("profiles.json")) {
+    this.file = new JsonFile<ProfilesDocument>(filePath, () => ({ profiles: [] }));
+  }
+
+  async insert(profile: VoiceProfile) {
+    await this.file.update((doc) => {
+      doc.profiles.push(profile);
+    });
+  }
+
+  async get(id: string) {
+    return (await this.file.read()).profiles.find((p) => p.id === id) ?? null;
+  }
+
+  async list() {
+    return (await this.file.read()).profiles;
+  }
+
+  update(id: string, patch: Partial<VoiceProfile>) {
+    return this.file.update((doc) => patchProfile(doc, id, patch));
+  }
+
+  delete(id: string) {
+    return this.file.update((doc) => removeProfile(doc, id));
+  }
+}
+
+/** Process-local store; profiles are lost on restart. */
+export class MemoryProfileStore implements ProfileStore {
+  private readonly doc: ProfilesDocument = { profiles: [] };
+
+  async insert(profile: VoiceProfile) {
+    this.doc.profiles.push(structuredClone(profile));
+  }
+
+  async get(id: string) {
+    const profile = this.doc.profiles.find((p) => p.id === id);
+    return profile ? structuredClone(profile) : null;
+  }
+
+  async list() {
+    return structuredClone(this.doc.profiles);
+  }
+
+  async update(id: string, patch: Partial<VoiceProfile>) {
+    const profile = patchProfile(this.doc, id, patch);
+    return profile ? structuredClone(profile) : null;
+  }
+
+  async delete(id: string) {
+    return removeProfile(this.doc, id);
+  }
+}
+
+let store: ProfileStore | null = null;
+
+/** The configured store: `PROFILES_STORE=memory` or the file store (default). */
+export function getProfileStore(): ProfileStore {
+  if (!store) store = process.env.PROFILES_STORE === "memory" ? new MemoryProfileStore() : new FileProfileStore();
+  return store;
+}
+
+/** Swaps in another backend (e.g. a database-backed store). */
+export function setProfileStore(next: ProfileStore) {
+  store = next;
+}
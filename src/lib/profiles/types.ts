@@ -0,0 +1,37 @@
+export const CAPITALIZATION_STYLES = ["any", "title", "sentence"] as const;
+export const EMOJI_POLICIES = ["none", "one", "any"] as const;
+
+/** `title`: Title Case; `sentence`: Sentence case; `any`: left as the model wrote it. */
+export type CapitalizationStyle = (typeof CAPITALIZATION_STYLES)[number];
+
+/** `none` strips emoji, `one` keeps only the first, `any` leaves them. */
+export type EmojiPolicy = (typeof EMOJI_POLICIES)[number];
+
+/** A channel's brand voice, selected per request with `profileId`. */
+export type VoiceProfile = {
+  id: string;
+  name: string;
+  /** Tone descriptors, e.g. "playful", "no-nonsense". */
+  tone: string[];
+  /** Words and phrases a title must never contain. */
+  bannedWords: string[];
+  /** Vocabulary the model should prefer where it fits. */
+  preferredWords: string[];
+  capitalization: CapitalizationStyle;
+  emoji: EmojiPolicy;
+  /** Published titles in this voice, shown to the model as style examples. */
+  exampleTitles: string[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type VoiceProfileFields = Omit<VoiceProfile, "id" | "createdAt" | "updatedAt">;
+
+export interface ProfileStore {
+  insert(profile: VoiceProfile): Promise<void>;
+  get(id: string): Promise<VoiceProfile | null>;
+  list(): Promise<VoiceProfile[]>;
+  update(id: string, patch: Partial<Omit<VoiceProfile, "id" | "createdAt">>): Promise<VoiceProfile | null>;
+  /** Returns the removed profile, or `null` when there was none. */
+  delete(id: string): Promise<VoiceProfile | null>;
+}
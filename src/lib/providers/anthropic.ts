@@ -0,0 +1,70 @@
+import { readSseData } from "@/lib/sse";
+import { readUpstreamError, requireEnv } from "./errors";
+import type { GenerateRequest, GenerateResult, ModelProvider } from "./types";
+
+type MessagesResponse = {
+  model?: string;
+  content?: { type: string; text?: string }[];
+};
+
+type MessagesStreamEvent = {
+  type: string;
+  delta?: { type?: string; text?: string };
+};
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+export function createAnthropicProvider(): ModelProvider {
+  const baseUrl = (process.env.ANTHROPIC_BASE_URL || "https://api.anthropic.com/v1").replace(/\/+$/, "");
+  const defaultModel = process.env.ANTHROPIC_MODEL || "claude-3-5-haiku-latest";
+
+  async function request(req: GenerateRequest, model: string, stream: boolean): Promise<Response> {
+    const apiKey = requireEnv("ANTHROPIC_API_KEY");
+    const res = await fetch(`${baseUrl}/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model,
+        stream,
+        // No native JSON mode: the system instruction already demands JSON only.
+        system: req.system,
+        messages: req.messages.map((m) => ({ role: m.role, content: m.text })),
+        temperature: req.temperature,
+        top_p: req.topP,
+        top_k: req.topK,
+        max_tokens: req.maxOutputTokens ?? 2048,
+      }),
+      signal: req.signal,
+    });
+    if (!res.ok) throw await readUpstreamError(res, "Anthropic");
+    return res;
+  }
+
+  return {
+    id: "anthropic",
+    defaultModel,
+    async generate(req: GenerateRequest): Promise<GenerateResult> {
+      const model = req.model || defaultModel;
+      const data = (await (await request(req, model, false)).json()) as MessagesResponse;
+      const text = (data.content ?? [])
+        .filter((block) => block.type === "text" && typeof block.text === "string")
+        .map((block) => block.text)
+        .join("\n");
+      return { text, provider: "anthropic", model: data.model || model };
+    },
+    async *stream(req: GenerateRequest): AsyncGenerator<string> {
+      const res = await request(req, req.model || defaultModel, true);
+      for await (const data of readSseData(res.body)) {
+        const event = JSON.parse(data) as MessagesStreamEvent;
+        if (event.type === "content_block_delta" && event.delta?.type === "text_delta" && event.delta.text) {
+          yield event.delta.text;
+        }
+        if (event.type === "message_stop") break;
+      }
+    },
+  };
+}
@@ -0,0 +1,26 @@
+/**
+ * Error raised by the provider layer. `status` is the HTTP status the API
+ * routes should answer with (500 for misconfiguration, 400 for a bad
+ * selection, 502 when the upstream model call fails).
+ */
+export class ProviderError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 500) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = status;
+  }
+}
+
+export function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) throw new ProviderError(`Missing ${name} environment variable`, 500);
+  return value;
+}
+
+export async function readUpstreamError(res: Response, provider: string): Promise<ProviderError> {
+  const body = await res.text().catch(() => "");
+  const detail = body ? `: ${body.slice(0, 500)}` : "";
+  return new ProviderError(`${provider} request failed with status ${res.status}${detail}`, 502);
+}
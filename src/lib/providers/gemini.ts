@@ -0,0 +1,111 @@
+import { GoogleGenAI } from "@google/genai";
+import { requireEnv } from "./errors";
+import type { EmbedRequest, GenerateRequest, GenerateResult, ModelProvider } from "./types";
+
+type UnknownRecord = Record<string, unknown>;
+
+type GenerateContentFn = (args: unknown) => Promise<unknown>;
+type GenerateContentStreamFn = (args: unknown) => Promise<AsyncGenerator<unknown>>;
+type EmbedContentFn = (args: unknown) => Promise<{ embeddings?: { values?: number[] }[] }>;
+
+function joinTextParts(parts: unknown): string {
+  if (!Array.isArray(parts)) return "";
+  return parts
+    .map((p) => (p && typeof p === "object" && typeof (p as UnknownRecord)["text"] === "string" ? String((p as UnknownRecord)["text"]) : ""))
+    .filter(Boolean)
+    .join("\n");
+}
+
+// Extract text from a generateContent response (handles multiple SDK shapes)
+export async function extractText(resp: unknown): Promise<string> {
+  try {
+    if (typeof resp === "string") return resp;
+    const r = (resp && typeof resp === "object" ? resp : {}) as UnknownRecord;
+    if (typeof r["text"] === "function") return await (r as { text: () => Promise<string> }).text();
+    if (typeof r["text"] === "string" && r["text"]) return r["text"];
+    const responseObj = r["response"] as UnknownRecord | undefined;
+    if (responseObj && typeof responseObj["text"] === "function") {
+      return await (responseObj as { text: () => Promise<string> }).text();
+    }
+    if (typeof r["outputText"] === "string") return r["outputText"];
+    const candidates = (responseObj?.["candidates"] ?? r["candidates"]) as unknown[] | undefined;
+    if (Array.isArray(candidates) && candidates.length) {
+      const first = (candidates[0] ?? {}) as UnknownRecord;
+      const content = first["content"] as UnknownRecord | undefined;
+      const joined = joinTextParts(content?.["parts"]);
+      if (joined) return joined;
+      const textField = typeof content?.["text"] === "string" ? String(content["text"]) : typeof first["text"] === "string" ? String(first["text"]) : "";
+      if (textField.trim()) return textField;
+    }
+    const joined = joinTextParts((r["content"] as UnknownRecord | undefined)?.["parts"]);
+    if (joined) return joined;
+    return JSON.stringify(resp);
+  } catch {
+    return String(resp);
+  }
+}
+
+// Stream chunks may carry no text at all (e.g. a trailing usage-only chunk)
+function chunkText(chunk: unknown): string {
+  const r = (chunk && typeof chunk === "object" ? chunk : {}) as UnknownRecord;
+  if (typeof r["text"] === "string") return r["text"];
+  const candidates = r["candidates"] as unknown[] | undefined;
+  const first = (Array.isArray(candidates) ? candidates[0] : undefined) as UnknownRecord | undefined;
+  return joinTextParts((first?.["content"] as UnknownRecord | undefined)?.["parts"]);
+}
+
+function buildParams(req: GenerateRequest, model: string) {
+  return {
+    model,
+    contents: req.messages.map((m) => ({
+      role: m.role === "assistant" ? "model" : "user",
+      parts: [{ text: m.text }],
+    })),
+    config: {
+      systemInstruction: req.system,
+      ...(req.json ? { responseMimeType: "application/json" } : {}),
+      ...(req.responseSchema ? { responseSchema: req.responseSchema } : {}),
+      temperature: req.temperature,
+      topP: req.topP,
+      topK: req.topK,
+      maxOutputTokens: req.maxOutputTokens,
+      abortSignal: req.signal,
+    },
+  };
+}
+
+export function createGeminiProvider(): ModelProvider {
+  const defaultModel = process.env.GEMINI_MODEL || "gemini-2.5-flash";
+  const embeddingModel = process.env.GEMINI_EMBEDDING_MODEL || "text-embedding-004";
+
+  function models() {
+    const ai = new GoogleGenAI({ apiKey: requireEnv("GEMINI_API_KEY") });
+    return (ai as unknown as { models: { generateContent: GenerateContentFn; generateContentStream: GenerateContentStreamFn; embedContent: EmbedContentFn } }).models;
+  }
+
+  return {
+    id: "gemini",
+    defaultModel,
+    async generate(req: GenerateRequest): Promise<GenerateResult> {
+      const model = req.model || defaultModel;
+      const response = await models().generateContent(buildParams(req, model));
+      return { text: await extractText(response), provider: "gemini", model };
+    },
+    async *stream(req: GenerateRequest): AsyncGenerator<string> {
+      const model = req.model || defaultModel;
+      const chunks = await models().generateContentStream(buildParams(req, model));
+      for await (const chunk of chunks) {
+        const text = chunkText(chunk);
+        if (text) yield text;
+      }
+    },
+    async embed(req: EmbedRequest): Promise<number[][]> {
+      const response = await models().embedContent({
+        model: req.model || embeddingModel,
+        contents: req.texts,
+        config: { abortSignal: req.signal },
+      });
+      return (response.embeddings ?? []).map((e) => e.values ?? []);
+    },
+  };
+}
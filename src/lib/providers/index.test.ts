@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { resolveProvider } from ".";
+
+describe("resolveProvider", () => {
+  beforeEach(() => {
+    vi.stubEnv("TITLES_PROVIDER", "ollama");
+    vi.stubEnv("TITLES_MODEL", "");
+    vi.stubEnv("OLLAMA_MODEL", "llama3.1");
+    vi.stubEnv("TITLES_ALLOWED_MODELS", "");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("uses the configured model when none is requested", () => {
+    expect(resolveProvider().model).toBe("llama3.1");
+  });
+
+  it("accepts the model that would run anyway without an allowlist", () => {
+    expect(resolveProvider({ model: "llama3.1" }).model).toBe("llama3.1");
+  });
+
+  it("rejects a requested model when no allowlist is set", () => {
+    expect(() => resolveProvider({ model: "anything" })).toThrow(expect.objectContaining({ status: 400, message: expect.stringMatching(/not enabled/) }));
+  });
+
+  it("uses a requested model listed for the provider", () => {
+    vi.stubEnv("TITLES_ALLOWED_MODELS", "openai:gpt-4o-mini, ollama:llama3.1:8b");
+    expect(resolveProvider({ model: "llama3.1:8b" }).model).toBe("llama3.1:8b");
+  });
+
+  it("rejects a model listed under another provider", () => {
+    vi.stubEnv("TITLES_ALLOWED_MODELS", "openai:gpt-4o-mini");
+    vi.stubEnv("TITLES_MODEL", "qwen2.5");
+    expect(() => resolveProvider({ model: "gpt-4o-mini" })).toThrow(/Model "gpt-4o-mini" is not enabled for provider "ollama"/);
+  });
+
+  it("only lets requests pick Ollama when it is listed or configured", () => {
+    vi.stubEnv("TITLES_PROVIDER", "gemini");
+    vi.stubEnv("GEMINI_API_KEY", "test");
+    expect(() => resolveProvider({ provider: "ollama" })).toThrow(expect.objectContaining({ status: 400 }));
+    vi.stubEnv("TITLES_ALLOWED_PROVIDERS", "gemini,ollama");
+    expect(resolveProvider({ provider: "ollama" }).provider.id).toBe("ollama");
+    vi.stubEnv("TITLES_ALLOWED_PROVIDERS", "");
+    vi.stubEnv("TITLES_PROVIDER", "ollama");
+    expect(resolveProvider({ provider: "ollama" }).provider.id).toBe("ollama");
+  });
+
+  it("rejects an unknown provider", () => {
+    expect(() => resolveProvider({ provider: "nope" })).toThrow(/Unknown provider/);
+  });
+});
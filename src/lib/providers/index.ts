@@ -0,0 +1,70 @@
+import { createAnthropicProvider } from "./anthropic";
+import { ProviderError } from "./errors";
+import { createGeminiProvider } from "./gemini";
+import { createOllamaProvider } from "./ollama";
+import { createOpenAIProvider } from "./openai";
+import type { ModelProvider, ProviderId, ProviderSelection } from "./types";
+
+export { ProviderError } from "./errors";
+export type * from "./types";
+
+const factories: Record<ProviderId, () => ModelProvider> = {
+  gemini: createGeminiProvider,
+  openai: createOpenAIProvider,
+  anthropic: createAnthropicProvider,
+  ollama: createOllamaProvider,
+};
+
+export const PROVIDER_IDS = Object.keys(factories) as ProviderId[];
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return typeof value === "string" && (PROVIDER_IDS as string[]).includes(value);
+}
+
+/** Providers a request may pick when `TITLES_ALLOWED_PROVIDERS` is unset. Ollama talks to a server on the host's network, so it has to be listed. */
+const DEFAULT_ALLOWED_PROVIDERS: ProviderId[] = ["gemini", "openai", "anthropic"];
+
+function allowedProviders(): ProviderId[] {
+  const raw = process.env.TITLES_ALLOWED_PROVIDERS;
+  if (!raw) return DEFAULT_ALLOWED_PROVIDERS;
+  return raw.split(",").map((s) => s.trim()).filter(isProviderId);
+}
+
+// `TITLES_ALLOWED_MODELS` lists `provider:model` pairs; Ollama tags keep their own colon ("ollama:llama3.1:8b")
+function allowedModels(provider: ProviderId): string[] {
+  const raw = process.env.TITLES_ALLOWED_MODELS;
+  if (!raw) return [];
+  const prefix = `${provider}:`;
+  return raw.split(",").map((s) => s.trim()).filter((s) => s.startsWith(prefix)).map((s) => s.slice(prefix.length));
+}
+
+export type ResolvedProvider = {
+  provider: ModelProvider;
+  model: string;
+};
+
+/**
+ * Picks the provider and model for a request. A per-request selection wins
+ * over `TITLES_PROVIDER` / `TITLES_MODEL`, which default to Gemini. Per-request
+ * providers can be restricted with `TITLES_ALLOWED_PROVIDERS` (Ollama only
+ * when listed there); a per-request model must be listed in
+ * `TITLES_ALLOWED_MODELS` or be the one that would run anyway. Anything else
+ * is a `400`.
+ */
+export function resolveProvider(selection: ProviderSelection = {}): ResolvedProvider {
+  const envProvider = process.env.TITLES_PROVIDER || "gemini";
+  const requested = selection.provider || envProvider;
+  if (!isProviderId(requested)) {
+    throw new ProviderError(`Unknown provider "${requested}". Expected one of: ${PROVIDER_IDS.join(", ")}`, selection.provider ? 400 : 500);
+  }
+  if (selection.provider && selection.provider !== envProvider && !allowedProviders().includes(requested)) {
+    throw new ProviderError(`Provider "${requested}" is not enabled on this server`, 400);
+  }
+  const provider = factories[requested]();
+  const envModel = requested === envProvider ? process.env.TITLES_MODEL : undefined;
+  const defaultModel = envModel || provider.defaultModel;
+  if (selection.model && selection.model !== defaultModel && !allowedModels(requested).includes(selection.model)) {
+    throw new ProviderError(`Model "${selection.model}" is not enabled for provider "${requested}" on this server`, 400);
+  }
+  return { provider, model: selection.model || defaultModel };
+}
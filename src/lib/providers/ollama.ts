@@ -0,0 +1,76 @@
+import { readLines } from "@/lib/sse";
+import { readUpstreamError } from "./errors";
+import type { EmbedRequest, GenerateRequest, GenerateResult, ModelProvider } from "./types";
+
+type ChatResponse = {
+  model?: string;
+  message?: { content?: string };
+  done?: boolean;
+};
+
+type EmbedResponse = {
+  embeddings?: number[][];
+};
+
+/** Local Ollama server via its native `/api/chat` endpoint. No key required. */
+export function createOllamaProvider(): ModelProvider {
+  const baseUrl = (process.env.OLLAMA_BASE_URL || "http://localhost:11434").replace(/\/+$/, "");
+  const defaultModel = process.env.OLLAMA_MODEL || "llama3.1";
+  const embeddingModel = process.env.OLLAMA_EMBEDDING_MODEL || "nomic-embed-text";
+
+  async function request(req: GenerateRequest, model: string, stream: boolean): Promise<Response> {
+    const res = await fetch(`${baseUrl}/api/chat`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model,
+        stream,
+        messages: [
+          { role: "system", content: req.system },
+          ...req.messages.map((m) => ({ role: m.role, content: m.text })),
+        ],
+        // Ollama accepts either "json" or a JSON schema for structured output
+        ...(req.json ? { format: req.responseSchema ?? "json" } : {}),
+        options: {
+          temperature: req.temperature,
+          top_p: req.topP,
+          top_k: req.topK,
+          num_predict: req.maxOutputTokens,
+        },
+      }),
+      signal: req.signal,
+    });
+    if (!res.ok) throw await readUpstreamError(res, "Ollama");
+    return res;
+  }
+
+  return {
+    id: "ollama",
+    defaultModel,
+    async generate(req: GenerateRequest): Promise<GenerateResult> {
+      const model = req.model || defaultModel;
+      const data = (await (await request(req, model, false)).json()) as ChatResponse;
+      return { text: data.message?.content ?? "", provider: "ollama", model: data.model || model };
+    },
+    async *stream(req: GenerateRequest): AsyncGenerator<string> {
+      const res = await request(req, req.model || defaultModel, true);
+      // Streaming responses are newline-delimited JSON objects
+      for await (const line of readLines(res.body)) {
+        if (!line.trim()) continue;
+        const chunk = JSON.parse(line) as ChatResponse;
+        if (chunk.message?.content) yield chunk.message.content;
+        if (chunk.done) break;
+      }
+    },
+    async embed(req: EmbedRequest): Promise<number[][]> {
+      const res = await fetch(`${baseUrl}/api/embed`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ model: req.model || embeddingModel, input: req.texts }),
+        signal: req.signal,
+      });
+      if (!res.ok) throw await readUpstreamError(res, "Ollama");
+      return ((await res.json()) as EmbedResponse).embeddings ?? [];
+    },
+  };
+}
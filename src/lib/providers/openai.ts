@@ -0,0 +1,91 @@
+import { readSseData } from "@/lib/sse";
+import { ProviderError, readUpstreamError } from "./errors";
+import type { EmbedRequest, GenerateRequest, GenerateResult, ModelProvider } from "./types";
+
+type ChatCompletion = {
+  model?: string;
+  choices?: { message?: { content?: string | null } }[];
+};
+
+type EmbeddingsResponse = {
+  data?: { index: number; embedding: number[] }[];
+};
+
+type ChatCompletionChunk = {
+  choices?: { delta?: { content?: string | null } }[];
+};
+
+/**
+ * Any server speaking the OpenAI chat-completions protocol: OpenAI itself,
+ * OpenRouter, vLLM or a local llama.cpp server (`OPENAI_BASE_URL=http://localhost:8080/v1`).
+ * The API key is optional so keyless local servers work.
+ */
+export function createOpenAIProvider(): ModelProvider {
+  const baseUrl = (process.env.OPENAI_BASE_URL || "https://api.openai.com/v1").replace(/\/+$/, "");
+  const apiKey = process.env.OPENAI_API_KEY;
+  const defaultModel = process.env.OPENAI_MODEL || "gpt-4o-mini";
+  const embeddingModel = process.env.OPENAI_EMBEDDING_MODEL || "text-embedding-3-small";
+
+  function headers(): Record<string, string> {
+    if (!apiKey && baseUrl.startsWith("https://api.openai.com")) {
+      throw new ProviderError("Missing OPENAI_API_KEY environment variable", 500);
+    }
+    return {
+      "Content-Type": "application/json",
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    };
+  }
+
+  async function request(req: GenerateRequest, model: string, stream: boolean): Promise<Response> {
+    const res = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: headers(),
+      body: JSON.stringify({
+        model,
+        stream,
+        messages: [
+          { role: "system", content: req.system },
+          ...req.messages.map((m) => ({ role: m.role, content: m.text })),
+        ],
+        ...(req.json ? { response_format: { type: "json_object" } } : {}),
+        temperature: req.temperature,
+        top_p: req.topP,
+        max_tokens: req.maxOutputTokens,
+      }),
+      signal: req.signal,
+    });
+    if (!res.ok) throw await readUpstreamError(res, "OpenAI");
+    return res;
+  }
+
+  return {
+    id: "openai",
+    defaultModel,
+    async generate(req: GenerateRequest): Promise<GenerateResult> {
+      const model = req.model || defaultModel;
+      const data = (await (await request(req, model, false)).json()) as ChatCompletion;
+      const text = data.choices?.[0]?.message?.content ?? "";
+      return { text, provider: "openai", model: data.model || model };
+    },
+    async *stream(req: GenerateRequest): AsyncGenerator<string> {
+      const res = await request(req, req.model || defaultModel, true);
+      for await (const data of readSseData(res.body)) {
+        if (data === "[DONE]") break;
+        const chunk = JSON.parse(data) as ChatCompletionChunk;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+    async embed(req: EmbedRequest): Promise<number[][]> {
+      const res = await fetch(`${baseUrl}/embeddings`, {
+        method: "POST",
+        headers: headers(),
+        body: JSON.stringify({ model: req.model || embeddingModel, input: req.texts }),
+        signal: req.signal,
+      });
+      if (!res.ok) throw await readUpstreamError(res, "OpenAI");
+      const data = (await res.json()) as EmbeddingsResponse;
+      return [...(data.data ?? [])].sort((a, b) => a.index - b.index).map((d) => d.embedding);
+    },
+  };
+}
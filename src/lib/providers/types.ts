@@ -0,0 +1,52 @@
+export type ProviderId = "gemini" | "openai" | "anthropic" | "ollama";
+
+export type ChatRole = "user" | "assistant";
+
+export type ChatMessage = {
+  role: ChatRole;
+  text: string;
+};
+
+export type GenerateRequest = {
+  /** Overrides the provider's default model. */
+  model?: string;
+  system: string;
+  messages: ChatMessage[];
+  /** Ask the provider for a JSON object response where it supports it. */
+  json?: boolean;
+  /** JSON-schema-like description of the expected object (used by Gemini and Ollama). */
+  responseSchema?: Record<string, unknown>;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  signal?: AbortSignal;
+};
+
+export type EmbedRequest = {
+  texts: string[];
+  /** Overrides the provider's default embedding model. */
+  model?: string;
+  signal?: AbortSignal;
+};
+
+export type GenerateResult = {
+  text: string;
+  provider: ProviderId;
+  model: string;
+};
+
+export interface ModelProvider {
+  readonly id: ProviderId;
+  readonly defaultModel: string;
+  generate(req: GenerateRequest): Promise<GenerateResult>;
+  /** Same request as `generate`, yielding text deltas as the model produces them. */
+  stream(req: GenerateRequest): AsyncGenerator<string>;
+  /** One vector per text, in order. Only on providers with an embeddings API. */
+  embed?(req: EmbedRequest): Promise<number[][]>;
+}
+
+export type ProviderSelection = {
+  provider?: string;
+  model?: string;
+};
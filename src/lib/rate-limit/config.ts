@@ -0,0 +1,36 @@
+import type { RateLimitAlgorithm, RateLimitKeyBy, RateLimitRule } from "./types";
+
+export type RateLimitConfig = {
+  enabled: boolean;
+  keyBy: RateLimitKeyBy;
+  rule: RateLimitRule;
+  store: "memory" | "redis";
+  redisUrl?: string;
+  redisToken?: string;
+};
+
+function positiveInt(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : fallback;
+}
+
+/**
+ * Reads the limiter settings from env. Defaults: on, 30 requests per 60
+ * seconds per IP, sliding window, in-memory counters.
+ */
+export function rateLimitConfig(): RateLimitConfig {
+  const algorithm: RateLimitAlgorithm = process.env.RATE_LIMIT_ALGORITHM === "token-bucket" ? "token-bucket" : "sliding-window";
+  const keyBy = process.env.RATE_LIMIT_KEY_BY;
+  return {
+    enabled: process.env.RATE_LIMIT !== "off",
+    keyBy: keyBy === "key" || keyBy === "ip+key" ? keyBy : "ip",
+    rule: {
+      limit: positiveInt(process.env.RATE_LIMIT_MAX, 30),
+      windowMs: positiveInt(process.env.RATE_LIMIT_WINDOW_SECONDS, 60) * 1000,
+      algorithm,
+    },
+    store: process.env.RATE_LIMIT_STORE === "redis" ? "redis" : "memory",
+    redisUrl: process.env.RATE_LIMIT_REDIS_URL,
+    redisToken: process.env.RATE_LIMIT_REDIS_TOKEN,
+  };
+}
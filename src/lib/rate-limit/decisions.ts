@@ -0,0 +1,33 @@
+import type { RateLimitDecision, RateLimitRule } from "./types";
+
+export function windowStartFor(rule: RateLimitRule, now: number): number {
+  return Math.floor(now / rule.windowMs) * rule.windowMs;
+}
+
+/** Weight of the previous fixed window still overlapping the sliding window. */
+export function previousWindowWeight(rule: RateLimitRule, now: number): number {
+  return 1 - (now - windowStartFor(rule, now)) / rule.windowMs;
+}
+
+/** Decision for a sliding window counter, given the weighted count seen before this request. */
+export function slidingWindowDecision(rule: RateLimitRule, now: number, estimated: number): RateLimitDecision {
+  const resetAt = windowStartFor(rule, now) + rule.windowMs;
+  if (estimated >= rule.limit) {
+    return { allowed: false, limit: rule.limit, remaining: 0, resetAt, retryAfter: Math.max(1, Math.ceil((resetAt - now) / 1000)) };
+  }
+  return { allowed: true, limit: rule.limit, remaining: Math.max(0, Math.floor(rule.limit - estimated - 1)), resetAt, retryAfter: 0 };
+}
+
+export function refillPerMs(rule: RateLimitRule): number {
+  return rule.limit / rule.windowMs;
+}
+
+/** Decision for a token bucket, given the tokens left after this request was (or was not) served. */
+export function tokenBucketDecision(rule: RateLimitRule, now: number, allowed: boolean, tokens: number): RateLimitDecision {
+  const rate = refillPerMs(rule);
+  const resetAt = now + Math.ceil((rule.limit - tokens) / rate);
+  if (!allowed) {
+    return { allowed: false, limit: rule.limit, remaining: 0, resetAt, retryAfter: Math.max(1, Math.ceil((1 - tokens) / rate / 1000)) };
+  }
+  return { allowed: true, limit: rule.limit, remaining: Math.floor(tokens), resetAt, retryAfter: 0 };
+}
@@ -0,0 +1,76 @@
+import { createRestRedisClient } from "@/lib/redis";
+import { rateLimitConfig } from "./config";
+import type { RateLimitConfig } from "./config";
+import { MemoryRateLimitStore } from "./memory";
+import { RedisRateLimitStore } from "./redis";
+import type { RateLimitDecision, RateLimitStore } from "./types";
+
+export { MemoryRateLimitStore } from "./memory";
+export { RedisRateLimitStore } from "./redis";
+export type * from "./types";
+
+let store: RateLimitStore | null = null;
+
+function getStore(config: RateLimitConfig): RateLimitStore {
+  if (store) return store;
+  if (config.store === "redis") {
+    if (!config.redisUrl) throw new Error("Missing RATE_LIMIT_REDIS_URL environment variable");
+    store = new RedisRateLimitStore(createRestRedisClient(config.redisUrl, config.redisToken));
+  } else {
+    store = new MemoryRateLimitStore();
+  }
+  return store;
+}
+
+/** Swaps in another backend (e.g. Redis through a TCP client on the Node.js runtime). */
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next;
+}
+
+export function clientIp(req: Request): string {
+  const forwarded = req.headers.get("x-forwarded-for");
+  if (forwarded) return forwarded.split(",")[0].trim();
+  return req.headers.get("x-real-ip") || "unknown";
+}
+
+// Identify API keys by a digest so raw keys never become counter names
+async function apiKeyId(req: Request): Promise<string | null> {
+  const match = /^Bearer\s+(.+)$/i.exec((req.headers.get("authorization") || "").trim());
+  if (!match) return null;
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(match[1].trim()));
+  return Array.from(new Uint8Array(digest).slice(0, 16), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function identity(req: Request, config: RateLimitConfig): Promise<string> {
+  const ip = `ip:${clientIp(req)}`;
+  if (config.keyBy === "ip") return ip;
+  const key = await apiKeyId(req);
+  // Anonymous callers fall back to their IP
+  if (!key) return ip;
+  return config.keyBy === "key" ? `key:${key}` : `${ip}|key:${key}`;
+}
+
+/**
+ * Counts the request against the limiter. `bucket` separates routes so one
+ * endpoint's traffic does not use up another's allowance. Returns `null` when
+ * limiting is off or the store is unreachable (fails open).
+ */
+export async function checkRateLimit(req: Request, bucket: string): Promise<RateLimitDecision | null> {
+  const config = rateLimitConfig();
+  if (!config.enabled) return null;
+  try {
+    return await getStore(config).hit(`${bucket}:${await identity(req, config)}`, config.rule, Date.now());
+  } catch (err) {
+    console.error("Rate limiter unavailable, allowing request", err);
+    return null;
+  }
+}
+
+export function rateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  return {
+    "X-RateLimit-Limit": String(decision.limit),
+    "X-RateLimit-Remaining": String(decision.remaining),
+    "X-RateLimit-Reset": String(Math.ceil(decision.resetAt / 1000)),
+    ...(decision.allowed ? {} : { "Retry-After": String(decision.retryAfter) }),
+  };
+}
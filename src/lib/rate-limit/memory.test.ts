@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { MemoryRateLimitStore } from "./memory";
+import type { RateLimitRule } from "./types";
+
+const WINDOW = 60_000;
+const sliding: RateLimitRule = { limit: 3, windowMs: WINDOW, algorithm: "sliding-window" };
+const bucket: RateLimitRule = { limit: 3, windowMs: WINDOW, algorithm: "token-bucket" };
+
+describe("sliding window", () => {
+  it("allows up to the limit, then answers with a retry delay", async () => {
+    const store = new MemoryRateLimitStore();
+    const start = 10 * WINDOW;
+    const remaining = [];
+    for (let i = 0; i < 3; i++) remaining.push((await store.hit("ip:1", sliding, start)).remaining);
+    expect(remaining).toEqual([2, 1, 0]);
+
+    const denied = await store.hit("ip:1", sliding, start + 1000);
+    expect(denied).toMatchObject({ allowed: false, remaining: 0, resetAt: start + WINDOW, retryAfter: 59 });
+  });
+
+  it("counts keys separately", async () => {
+    const store = new MemoryRateLimitStore();
+    for (let i = 0; i < 3; i++) await store.hit("ip:1", sliding, 0);
+    expect((await store.hit("ip:2", sliding, 0)).allowed).toBe(true);
+  });
+
+  it("weights the previous window by its overlap", async () => {
+    const store = new MemoryRateLimitStore();
+    const start = 10 * WINDOW;
+    for (let i = 0; i < 3; i++) await store.hit("ip:1", sliding, start);
+    // Halfway into the next window the previous 3 still count as 1.5, leaving room for 2
+    expect((await store.hit("ip:1", sliding, start + WINDOW * 1.5)).allowed).toBe(true);
+    expect((await store.hit("ip:1", sliding, start + WINDOW * 1.5)).allowed).toBe(true);
+    expect((await store.hit("ip:1", sliding, start + WINDOW * 1.5)).allowed).toBe(false);
+    // A full window later they no longer count
+    expect((await store.hit("ip:1", sliding, start + WINDOW * 3)).remaining).toBe(2);
+  });
+});
+
+describe("token bucket", () => {
+  it("spends the burst, then refills over the window", async () => {
+    const store = new MemoryRateLimitStore();
+    for (let i = 0; i < 3; i++) expect((await store.hit("key:a", bucket, 0)).allowed).toBe(true);
+
+    const denied = await store.hit("key:a", bucket, 0);
+    expect(denied).toMatchObject({ allowed: false, retryAfter: 20 });
+
+    // One token comes back every windowMs / limit
+    expect((await store.hit("key:a", bucket, WINDOW / 3)).allowed).toBe(true);
+    expect((await store.hit("key:a", bucket, WINDOW / 3)).allowed).toBe(false);
+  });
+});
@@ -0,0 +1,54 @@
+import { previousWindowWeight, refillPerMs, slidingWindowDecision, tokenBucketDecision, windowStartFor } from "./decisions";
+import type { RateLimitDecision, RateLimitRule, RateLimitStore } from "./types";
+
+type WindowState = { windowStart: number; current: number; previous: number };
+type BucketState = { tokens: number; updatedAt: number };
+
+const MAX_ENTRIES = 10_000;
+
+/**
+ * Counters in process memory. Each server instance (or edge isolate) limits
+ * independently, so use the Redis store when running more than one.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly windows = new Map<string, WindowState>();
+  private readonly buckets = new Map<string, BucketState>();
+
+  async hit(key: string, rule: RateLimitRule, now: number): Promise<RateLimitDecision> {
+    this.prune(now, rule.windowMs);
+    return rule.algorithm === "token-bucket" ? this.takeToken(key, rule, now) : this.slideWindow(key, rule, now);
+  }
+
+  private slideWindow(key: string, rule: RateLimitRule, now: number): RateLimitDecision {
+    const windowStart = windowStartFor(rule, now);
+    let state = this.windows.get(key);
+    if (!state || state.windowStart !== windowStart) {
+      const previous = state && state.windowStart === windowStart - rule.windowMs ? state.current : 0;
+      state = { windowStart, current: 0, previous };
+      this.windows.set(key, state);
+    }
+    const decision = slidingWindowDecision(rule, now, state.previous * previousWindowWeight(rule, now) + state.current);
+    if (decision.allowed) state.current += 1;
+    return decision;
+  }
+
+  private takeToken(key: string, rule: RateLimitRule, now: number): RateLimitDecision {
+    const prev = this.buckets.get(key) ?? { tokens: rule.limit, updatedAt: now };
+    let tokens = Math.min(rule.limit, prev.tokens + (now - prev.updatedAt) * refillPerMs(rule));
+    const allowed = tokens >= 1;
+    if (allowed) tokens -= 1;
+    this.buckets.set(key, { tokens, updatedAt: now });
+    return tokenBucketDecision(rule, now, allowed, tokens);
+  }
+
+  // Drop idle entries so a stream of distinct IPs cannot grow memory without bound
+  private prune(now: number, windowMs: number) {
+    if (this.windows.size + this.buckets.size < MAX_ENTRIES) return;
+    for (const [key, state] of this.windows) {
+      if (now - state.windowStart > 2 * windowMs) this.windows.delete(key);
+    }
+    for (const [key, state] of this.buckets) {
+      if (now - state.updatedAt > windowMs) this.buckets.delete(key);
+    }
+  }
+}
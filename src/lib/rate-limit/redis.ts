@@ -0,0 +1,63 @@
+import type { RedisClient } from "@/lib/redis";
+import { previousWindowWeight, refillPerMs, slidingWindowDecision, tokenBucketDecision, windowStartFor } from "./decisions";
+import type { RateLimitDecision, RateLimitRule, RateLimitStore } from "./types";
+
+// Returns { allowed, estimated-before-this-request }
+const SLIDING_WINDOW_SCRIPT = `
+local current = tonumber(redis.call('GET', KEYS[1]) or '0')
+local previous = tonumber(redis.call('GET', KEYS[2]) or '0')
+local estimated = previous * tonumber(ARGV[2]) + current
+if estimated >= tonumber(ARGV[1]) then
+  return {0, tostring(estimated)}
+end
+redis.call('INCR', KEYS[1])
+redis.call('PEXPIRE', KEYS[1], ARGV[3])
+return {1, tostring(estimated)}
+`;
+
+// Returns { allowed, tokens-left }
+const TOKEN_BUCKET_SCRIPT = `
+local limit = tonumber(ARGV[1])
+local now = tonumber(ARGV[3])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(state[1]) or limit
+local updated = tonumber(state[2]) or now
+tokens = math.min(limit, tokens + (now - updated) * tonumber(ARGV[2]))
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', tostring(now))
+redis.call('PEXPIRE', KEYS[1], ARGV[4])
+return {allowed, tostring(tokens)}
+`;
+
+function readReply(reply: unknown): [boolean, number] {
+  const [allowed, value] = Array.isArray(reply) ? reply : [0, 0];
+  return [Number(allowed) === 1, Number(value)];
+}
+
+/** Shared counters in Redis; each check is one atomic Lua script. */
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(
+    private readonly client: Pick<RedisClient, "eval">,
+    private readonly prefix = "ratelimit",
+  ) {}
+
+  async hit(key: string, rule: RateLimitRule, now: number): Promise<RateLimitDecision> {
+    if (rule.algorithm === "token-bucket") {
+      const reply = await this.client.eval(TOKEN_BUCKET_SCRIPT, [`${this.prefix}:tb:${key}`], [rule.limit, refillPerMs(rule), now, rule.windowMs * 2]);
+      const [allowed, tokens] = readReply(reply);
+      return tokenBucketDecision(rule, now, allowed, tokens);
+    }
+    const windowStart = windowStartFor(rule, now);
+    const reply = await this.client.eval(
+      SLIDING_WINDOW_SCRIPT,
+      [`${this.prefix}:sw:${key}:${windowStart}`, `${this.prefix}:sw:${key}:${windowStart - rule.windowMs}`],
+      [rule.limit, previousWindowWeight(rule, now), rule.windowMs * 2],
+    );
+    const [, estimated] = readReply(reply);
+    return slidingWindowDecision(rule, now, estimated);
+  }
+}
@@ -0,0 +1,25 @@
+export type RateLimitAlgorithm = "sliding-window" | "token-bucket";
+
+export type RateLimitKeyBy = "ip" | "key" | "ip+key";
+
+export type RateLimitRule = {
+  /** Requests allowed per window (also the token bucket's capacity). */
+  limit: number;
+  windowMs: number;
+  algorithm: RateLimitAlgorithm;
+};
+
+export type RateLimitDecision = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Epoch milliseconds when the client has its full allowance again. */
+  resetAt: number;
+  /** Seconds to wait before retrying; 0 when allowed. */
+  retryAfter: number;
+};
+
+export interface RateLimitStore {
+  /** Counts one request for `key` under `rule` and reports whether it is allowed. */
+  hit(key: string, rule: RateLimitRule, now: number): Promise<RateLimitDecision>;
+}
@@ -0,0 +1,31 @@
+/** A Redis connection reduced to what this app needs: raw commands and Lua scripts. */
+export interface RedisClient {
+  command(args: (string | number)[]): Promise<unknown>;
+  eval(script: string, keys: string[], args: (string | number)[]): Promise<unknown>;
+}
+
+/**
+ * Redis over HTTP using the Upstash-compatible REST protocol (a JSON array
+ * command POSTed to the base URL). Works from the Edge runtime, where TCP
+ * Redis clients cannot run.
+ */
+export function createRestRedisClient(url: string, token?: string): RedisClient {
+  async function command(args: (string | number)[]): Promise<unknown> {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(args.map(String)),
+    });
+    const data = (await res.json().catch(() => ({}))) as { result?: unknown; error?: string };
+    if (!res.ok || data.error) throw new Error(`Redis request failed: ${data.error || res.status}`);
+    return data.result;
+  }
+
+  return {
+    command,
+    eval: (script, keys, args) => command(["EVAL", script, keys.length, ...keys, ...args]),
+  };
+}
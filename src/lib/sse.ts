@@ -0,0 +1,73 @@
+import type { StreamSerializer } from "@/lib/stream-response";
+
+/** Splits a response body into lines, across chunk boundaries. */
+export async function* readLines(body: ReadableStream<Uint8Array> | null): AsyncGenerator<string> {
+  if (!body) return;
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let newline = buffer.indexOf("\n");
+      while (newline !== -1) {
+        yield buffer.slice(0, newline).replace(/\r$/, "");
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf("\n");
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer) yield buffer;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export type ServerSentEvent = {
+  event: string;
+  data: string;
+};
+
+/** Parses a `text/event-stream` body into events. Works in the browser and on the server. */
+export async function* readSseEvents(body: ReadableStream<Uint8Array> | null): AsyncGenerator<ServerSentEvent> {
+  let event = "message";
+  let data: string[] = [];
+  for await (const line of readLines(body)) {
+    if (line === "") {
+      if (data.length) yield { event, data: data.join("\n") };
+      event = "message";
+      data = [];
+    } else if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      data.push(line.slice(5).replace(/^ /, ""));
+    }
+  }
+  if (data.length) yield { event, data: data.join("\n") };
+}
+
+/** Yields only the `data:` payloads of an upstream event stream. */
+export async function* readSseData(body: ReadableStream<Uint8Array> | null): AsyncGenerator<string> {
+  for await (const { data } of readSseEvents(body)) yield data;
+}
+
+/** True when the client asked for a streamed answer (`Accept: text/event-stream` or `?stream=1`). */
+export function wantsEventStream(req: Request): boolean {
+  const accept = req.headers.get("accept") || "";
+  if (accept.includes("text/event-stream")) return true;
+  const stream = new URL(req.url).searchParams.get("stream");
+  return stream === "1" || stream === "true";
+}
+
+export type OutgoingEvent = {
+  event: string;
+  data: unknown;
+};
+
+/** `text/event-stream` framing for `streamResponse`; `data` is sent as JSON. */
+export const eventStream: StreamSerializer<OutgoingEvent> = {
+  contentType: "text/event-stream; charset=utf-8",
+  serialize: ({ event, data }) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`,
+};
@@ -0,0 +1,53 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/** Directory for local durable state. Override with `DATA_DIR`. */
+export function dataDir(): string {
+  return path.resolve(process.env.DATA_DIR || ".data");
+}
+
+export function dataPath(fileName: string): string {
+  return path.join(dataDir(), fileName);
+}
+
+/**
+ * A single JSON document on disk. Updates are serialized within the process
+ * and written atomically (temp file + rename), which is enough for one
+ * Next.js server; use a real database when running several instances.
+ */
+export class JsonFile<T> {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly empty: () => T,
+  ) {}
+
+  async read(): Promise<T> {
+    try {
+      return JSON.parse(await readFile(this.filePath, "utf8")) as T;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException)?.code === "ENOENT") return this.empty();
+      throw err;
+    }
+  }
+
+  /** Applies `fn` to the current document and persists the result. Returns whatever `fn` returns. */
+  update<R>(fn: (doc: T) => R | Promise<R>): Promise<R> {
+    const run = this.queue.then(async () => {
+      const doc = await this.read();
+      const result = await fn(doc);
+      await this.write(doc);
+      return result;
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async write(doc: T): Promise<void> {
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(doc, null, 2), "utf8");
+    await rename(tmp, this.filePath);
+  }
+}
@@ -0,0 +1,50 @@
+/** How `streamResponse` frames items on the wire. */
+export type StreamSerializer<T> = {
+  contentType: string;
+  /** One item as text, including its delimiter. */
+  serialize(item: T): string;
+};
+
+/**
+ * Streams `items` as the response body, each one flushed as soon as it is
+ * ready. A failure mid-stream is reported through `onError` as one last
+ * item, since the status line has already gone out.
+ */
+export function streamResponse<T>(
+  items: AsyncIterable<T>,
+  serializer: StreamSerializer<T>,
+  onError: (err: unknown) => T,
+  headers: Record<string, string> = {},
+): Response {
+  const encoder = new TextEncoder();
+  const encode = (item: T) => encoder.encode(serializer.serialize(item));
+
+  const iterator = items[Symbol.asyncIterator]();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await iterator.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encode(value));
+      } catch (err) {
+        controller.enqueue(encode(onError(err)));
+        controller.close();
+      }
+    },
+    async cancel() {
+      // Client went away: stop pulling from the model
+      await iterator.return?.();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...headers,
+      "Content-Type": serializer.contentType,
+      "Cache-Control": "no-cache, no-transform",
+    },
+  });
+}
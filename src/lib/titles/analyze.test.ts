@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MemoryChannelStore, setChannelStore } from "@/lib/channels/store";
+import { resolveProvider } from "@/lib/providers";
+import type { GenerateRequest, ModelProvider } from "@/lib/providers";
+import { RequestValidationError } from "@/lib/validation";
+import { analyzeTitle, analyzeTitles, parseTitleAnalyze } from "./analyze";
+import { DEFAULT_MAX_LENGTH } from "./prompt";
+
+vi.mock("@/lib/providers", async (importOriginal) => ({ ...(await importOriginal<typeof import("@/lib/providers")>()), resolveProvider: vi.fn() }));
+
+const LONG_TITLE = "The Complete Beginner Guide to Sourdough Bread Baking at Home in 2025";
+
+describe("analyzeTitle", () => {
+  it("reports the mobile and desktop cut with a preview", () => {
+    const { length, warnings } = analyzeTitle(LONG_TITLE, [], 60, null);
+    expect(length).toMatchObject({ characters: LONG_TITLE.length, maxLength: 60, overMaxLength: true });
+    expect(length.mobile).toEqual({ limit: 40, truncated: true, preview: "The Complete Beginner Guide to Sourdough..." });
+    expect(length.desktop).toEqual({ limit: 70, truncated: false, preview: LONG_TITLE });
+    expect(warnings).toEqual(["Longer than 60 characters", "Cut off on mobile after 40 characters"]);
+  });
+
+  it("finds keywords by word position, folding plurals, and checks what mobile shows", () => {
+    const { keywords, warnings } = analyzeTitle(LONG_TITLE, ["sourdough breads", "home", "rye"], 100, null);
+    expect(keywords).toEqual([
+      { keyword: "sourdough breads", present: true, position: 5, frontLoaded: false, visibleOnMobile: false },
+      { keyword: "home", present: true, position: 9, frontLoaded: false, visibleOnMobile: false },
+      { keyword: "rye", present: false, position: null, frontLoaded: false, visibleOnMobile: false },
+    ]);
+    expect(warnings).toContain('Keyword "sourdough breads" is hidden on mobile');
+    expect(warnings).toContain('Missing keyword "rye"');
+    expect(warnings).toContain('Main keyword "sourdough breads" is not in the first 3 words');
+  });
+
+  it("flags clickbait", () => {
+    const { clickbait, warnings } = analyzeTitle("SHOCKING Sourdough Trick!!", [], 100, null);
+    expect(clickbait.shouting).toEqual(["SHOCKING"]);
+    expect(clickbait.exclamations).toBeGreaterThan(0);
+    expect(clickbait.penalty).toBeGreaterThan(0);
+    expect(warnings).toContain("All caps: SHOCKING");
+    expect(warnings).toContain("Exclamation marks");
+  });
+
+  it("rates closeness to past titles, closest first", () => {
+    const past = [
+      { title: "Sourdough Bread for Beginners", views: 1000, ctr: 4, addedAt: "2025-01-01T00:00:00.000Z" },
+      { title: "Sourdough Bread Guide for Beginners", views: 500, ctr: 3, addedAt: "2025-01-01T00:00:00.000Z" },
+      { title: "Fixing a Flat Bike Tire", views: 10, ctr: 1, addedAt: "2025-01-01T00:00:00.000Z" },
+    ];
+    const { duplicates, warnings } = analyzeTitle("Sourdough Bread Guide for Beginners", [], 100, past);
+    expect(duplicates?.risk).toBe("high");
+    expect(duplicates?.matches.map((m) => m.title)).toEqual(["Sourdough Bread Guide for Beginners", "Sourdough Bread for Beginners"]);
+    expect(duplicates?.matches[0].similarity).toBe(1);
+    expect(warnings).toContain('Very close to a past title: "Sourdough Bread Guide for Beginners"');
+    expect(analyzeTitle("Fixing a Flat Bike Tire Fast", [], 100, []).duplicates).toEqual({ risk: "low", matches: [] });
+  });
+});
+
+describe("parseTitleAnalyze", () => {
+  it("splits the titles and model options from the brief", () => {
+    const { request, options } = parseTitleAnalyze({ titles: [" Sourdough 101 "], keywords: ["sourdough"], model: "gpt-4o-mini" });
+    expect(request).toEqual({ input: { keywords: ["sourdough"] }, titles: ["Sourdough 101"], suggestions: false });
+    expect(options).toEqual({ provider: undefined, model: "gpt-4o-mini" });
+  });
+
+  it("rejects an empty titles list", () => {
+    expect(() => parseTitleAnalyze({ titles: [] })).toThrow(RequestValidationError);
+  });
+});
+
+describe("analyzeTitles", () => {
+  let generate: ReturnType<typeof vi.fn<(req: GenerateRequest) => Promise<{ text: string; provider: "ollama"; model: string }>>>;
+
+  beforeEach(() => {
+    setChannelStore(new MemoryChannelStore());
+    generate = vi.fn(async () => ({ text: "{}", provider: "ollama" as const, model: "stub" }));
+    const provider = { id: "ollama", defaultModel: "stub", generate } as unknown as ModelProvider;
+    vi.mocked(resolveProvider).mockReturnValue({ provider, model: "stub" });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("grades titles locally without calling the model", async () => {
+    const { items, meta } = await analyzeTitles({ input: { keywords: ["sourdough"] }, titles: ["Sourdough 101", LONG_TITLE], suggestions: false });
+    expect(items.map((i) => i.title)).toEqual(["Sourdough 101", LONG_TITLE]);
+    expect(items.every((i) => i.suggestions === null && i.duplicates === null)).toBe(true);
+    expect(meta).toMatchObject({ count: 2, maxLength: DEFAULT_MAX_LENGTH, channelId: null, suggested: false, model: null, provider: null });
+    expect(resolveProvider).not.toHaveBeenCalled();
+  });
+
+  it("checks against the channel's past titles and rejects an unknown channel", async () => {
+    const store = new MemoryChannelStore();
+    await store.addTitles("main", [{ title: "Sourdough Bread for Beginners", views: null, ctr: null, addedAt: "2025-01-01T00:00:00.000Z" }], true);
+    setChannelStore(store);
+    const { items, meta } = await analyzeTitles({ input: { channelId: "main" }, titles: ["Sourdough Bread for Beginners"], suggestions: false });
+    expect(items[0].duplicates?.risk).toBe("high");
+    expect(meta.channelId).toBe("main");
+    await expect(analyzeTitles({ input: { channelId: "other" }, titles: ["Sourdough 101"], suggestions: false })).rejects.toThrow(RequestValidationError);
+  });
+
+  it("adds the model's suggestions by title number, with the local warnings in the prompt", async () => {
+    const reviews = [{ index: 2, suggestions: [" Cut the year ", ""] }, { index: 9, suggestions: ["Out of range"] }];
+    generate.mockResolvedValueOnce({ text: JSON.stringify({ reviews }), provider: "ollama", model: "stub" });
+    const { items, meta } = await analyzeTitles({ input: {}, titles: ["Sourdough 101", LONG_TITLE], suggestions: true });
+    expect(items.map((i) => i.suggestions)).toEqual([null, ["Cut the year"]]);
+    expect(meta).toMatchObject({ suggested: true, model: "stub", provider: "ollama" });
+    expect(generate.mock.calls[0][0].messages[0].text).toContain(`2. ${LONG_TITLE}\n   - Longer than ${DEFAULT_MAX_LENGTH} characters`);
+  });
+
+  it("returns the local checks when the suggestions call fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    generate.mockRejectedValueOnce(new Error("upstream down"));
+    const { items, meta } = await analyzeTitles({ input: {}, titles: ["Sourdough 101"], suggestions: true });
+    expect(items[0].suggestions).toBeNull();
+    expect(meta).toMatchObject({ suggested: false, model: "stub", provider: "ollama" });
+  });
+});
@@ -0,0 +1,296 @@
+import { z } from "zod";
+import { detectStyle } from "@/lib/channels/insights";
+import { getChannelStore } from "@/lib/channels/store";
+import type { PastTitle } from "@/lib/channels/types";
+import { resolveProvider } from "@/lib/providers";
+import type { ProviderId } from "@/lib/providers";
+import { parseWithSchema, RequestValidationError } from "@/lib/validation";
+import { parseModelJson } from "./parse";
+import { DEFAULT_MAX_LENGTH } from "./prompt";
+import { DESCRIPTION_MAX_LENGTH, TITLE_MAX_LENGTH, titleRequestSchema } from "./schema";
+import { clickbaitFlags, containsKeyword, scoreTitle, tokenize } from "./score";
+import type { ClickbaitFlags } from "./score";
+import { LEXICAL_DUPLICATE_THRESHOLD, lexicalSimilarity } from "./similarity";
+import type { GenerateTitlesOptions, ModelContext, TitleInput, TitleScores, TitleStyle } from "./types";
+
+export const ANALYZE_TITLES_MAX = 25;
+/**
+ * Characters shown before YouTube cuts a title off with "...". Approximate:
+ * the real cut depends on glyph widths and layout, so these are the
+ * conservative figures for the mobile feed and desktop search results.
+ */
+export const MOBILE_TRUNCATION_LENGTH = 40;
+export const DESKTOP_TRUNCATION_LENGTH = 70;
+/** Keywords starting within the first this many words count as front-loaded. */
+const FRONT_WORDS = 3;
+/** Past titles at or above this similarity are listed; at or above `LEXICAL_DUPLICATE_THRESHOLD` the risk is high. */
+const DUPLICATE_MATCH_THRESHOLD = 0.5;
+const DUPLICATE_MATCHES_MAX = 3;
+
+export type TruncationCheck = {
+  limit: number;
+  truncated: boolean;
+  /** The title as it would show, with "..." when cut. */
+  preview: string;
+};
+
+export type KeywordCheck = {
+  keyword: string;
+  present: boolean;
+  /** Word index where the keyword starts; `null` when absent. */
+  position: number | null;
+  frontLoaded: boolean;
+  /** Whole keyword within the mobile cut. */
+  visibleOnMobile: boolean;
+};
+
+export type DuplicateRisk = {
+  risk: "low" | "medium" | "high";
+  /** Most similar past titles of the channel, closest first; their views and CTR are not exposed. */
+  matches: { title: string; similarity: number }[];
+};
+
+export type TitleAnalysis = {
+  title: string;
+  length: {
+    characters: number;
+    maxLength: number;
+    overMaxLength: boolean;
+    mobile: TruncationCheck;
+    desktop: TruncationCheck;
+  };
+  keywords: KeywordCheck[];
+  /** First style archetype whose check the title passes, or `other`. */
+  style: TitleStyle | "other";
+  clickbait: ClickbaitFlags & { penalty: number };
+  /** Against the channel's past titles; `null` without `channelId`. */
+  duplicates: DuplicateRisk | null;
+  scores: TitleScores;
+  /** One line per failed check, for a quick review. */
+  warnings: string[];
+  /** Model-written improvements; `null` unless `suggestions` was requested and the model answered. */
+  suggestions: string[] | null;
+};
+
+export type TitleAnalysisResult = {
+  items: TitleAnalysis[];
+  meta: {
+    count: number;
+    maxLength: number;
+    channelId: string | null;
+    /** Whether the model pass ran and answered; `model` and `provider` are set when it was requested. */
+    suggested: boolean;
+    model: string | null;
+    provider: ProviderId | null;
+    analyzedAt: string;
+  };
+};
+
+/** Titles to grade plus the optional brief; `suggestions` adds the model pass. */
+export const titleAnalyzeSchema = titleRequestSchema
+  .pick({ keywords: true, niche: true, language: true, maxLength: true, channelId: true, provider: true, model: true })
+  .extend({
+    titles: z
+      .array(z.string().trim().min(1, "titles must not be empty").max(TITLE_MAX_LENGTH), { error: "titles is required" })
+      .min(1, "titles must not be empty")
+      .max(ANALYZE_TITLES_MAX),
+    description: z.string().trim().max(DESCRIPTION_MAX_LENGTH).optional().transform((v) => v || undefined),
+    suggestions: z.boolean().optional(),
+  });
+
+export type TitleAnalyzeRequest = {
+  input: TitleInput;
+  titles: string[];
+  suggestions: boolean;
+};
+
+/** Validates an analysis body, throwing `RequestValidationError` with field-level issues. */
+export function parseTitleAnalyze(body: unknown): { request: TitleAnalyzeRequest; options: GenerateTitlesOptions } {
+  const { provider, model, titles, suggestions, ...input } = parseWithSchema(titleAnalyzeSchema, body);
+  return { request: { input, titles, suggestions: suggestions ?? false }, options: { provider, model } };
+}
+
+function truncation(title: string, limit: number): TruncationCheck {
+  const truncated = title.length > limit;
+  return { limit, truncated, preview: truncated ? `${title.slice(0, limit).trimEnd()}...` : title };
+}
+
+function keywordCheck(title: string, keyword: string): KeywordCheck {
+  const index = containsKeyword(tokenize(title), keyword);
+  return {
+    keyword,
+    present: index !== -1,
+    position: index === -1 ? null : index,
+    frontLoaded: index !== -1 && index < FRONT_WORDS,
+    // A keyword cut mid-word no longer matches in the shown part
+    visibleOnMobile: containsKeyword(tokenize(title.slice(0, MOBILE_TRUNCATION_LENGTH)), keyword) !== -1,
+  };
+}
+
+function duplicateRisk(title: string, past: PastTitle[]): DuplicateRisk {
+  const matches = past
+    .map((p) => ({ title: p.title, similarity: Math.round(lexicalSimilarity(title, p.title) * 100) / 100 }))
+    .filter((m) => m.similarity >= DUPLICATE_MATCH_THRESHOLD)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, DUPLICATE_MATCHES_MAX);
+  const closest = matches[0]?.similarity ?? 0;
+  return { risk: closest >= LEXICAL_DUPLICATE_THRESHOLD ? "high" : matches.length ? "medium" : "low", matches };
+}
+
+function warnings(analysis: Omit<TitleAnalysis, "warnings" | "suggestions">): string[] {
+  const { length, keywords, clickbait, duplicates } = analysis;
+  const lines: string[] = [];
+  if (length.overMaxLength) lines.push(`Longer than ${length.maxLength} characters`);
+  if (length.mobile.truncated) lines.push(`Cut off on mobile after ${length.mobile.limit} characters`);
+  if (length.desktop.truncated) lines.push(`Cut off on desktop after ${length.desktop.limit} characters`);
+  for (const k of keywords) {
+    if (!k.present) lines.push(`Missing keyword "${k.keyword}"`);
+    else if (!k.visibleOnMobile) lines.push(`Keyword "${k.keyword}" is hidden on mobile`);
+  }
+  if (keywords[0]?.present && !keywords[0].frontLoaded) lines.push(`Main keyword "${keywords[0].keyword}" is not in the first ${FRONT_WORDS} words`);
+  if (clickbait.hype.length) lines.push(`Hype words: ${clickbait.hype.join(", ")}`);
+  if (clickbait.shouting.length) lines.push(`All caps: ${clickbait.shouting.join(", ")}`);
+  if (clickbait.exclamations) lines.push("Exclamation marks");
+  if (clickbait.emoji) lines.push("Emoji");
+  if (duplicates?.risk === "high") lines.push(`Very close to a past title: "${duplicates.matches[0].title}"`);
+  else if (duplicates?.risk === "medium") lines.push(`Similar to a past title: "${duplicates.matches[0].title}"`);
+  return lines;
+}
+
+/** The local checks for one title: no model call, the same input always gives the same analysis. */
+export function analyzeTitle(title: string, keywords: string[], maxLength: number, past: PastTitle[] | null): TitleAnalysis {
+  const scores = scoreTitle(title, { keywords, maxLength });
+  const analysis = {
+    title,
+    length: {
+      characters: title.length,
+      maxLength,
+      overMaxLength: title.length > maxLength,
+      mobile: truncation(title, MOBILE_TRUNCATION_LENGTH),
+      desktop: truncation(title, DESKTOP_TRUNCATION_LENGTH),
+    },
+    keywords: keywords.map((k) => keywordCheck(title, k)),
+    style: detectStyle(title),
+    clickbait: { ...clickbaitFlags(title), penalty: scores.clickbaitPenalty },
+    duplicates: past ? duplicateRisk(title, past) : null,
+    scores,
+  };
+  return { ...analysis, warnings: warnings(analysis), suggestions: null };
+}
+
+const SUGGEST_SCHEMA = {
+  type: "object",
+  properties: {
+    reviews: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          index: { type: "integer" },
+          suggestions: { type: "array", items: { type: "string" } },
+        },
+        required: ["index", "suggestions"],
+      },
+    },
+  },
+  required: ["reviews"],
+};
+
+function buildSuggestInstruction(input: TitleInput, maxLength: number) {
+  const brief: string[] = [];
+  if (input.description) brief.push(`Description: ${input.description.slice(0, 1000)}`);
+  if (input.keywords?.length) brief.push(`Keywords: ${input.keywords.join(", ")}`);
+  if (input.niche) brief.push(`Niche: ${input.niche}`);
+  if (input.language) brief.push(`Language: ${input.language}`);
+  return [
+    "You are a YouTube title editor reviewing titles written by people.",
+    ...(brief.length ? ["The video:", ...brief] : []),
+    "For every numbered title give 1-3 short, concrete suggestions to improve it, using the checks listed under it.",
+    `- Titles should fit in ${maxLength} characters, lead with the main keyword and avoid clickbait hype.`,
+    "- Suggest changes; do not rewrite the whole title.",
+    'Respond with JSON only: {"reviews": [{"index": number, "suggestions": [string]}]}, one entry per title, using the title numbers given.',
+  ].join("\n");
+}
+
+function readSuggestions(text: string, size: number): Map<number, string[]> {
+  const parsed = parseModelJson(text) as { reviews?: unknown } | null;
+  const reviews = new Map<number, string[]>();
+  if (!Array.isArray(parsed?.reviews)) return reviews;
+  for (const entry of parsed.reviews as Record<string, unknown>[]) {
+    const index = Number(entry?.["index"]) - 1;
+    if (!Number.isInteger(index) || index < 0 || index >= size || reviews.has(index) || !Array.isArray(entry["suggestions"])) continue;
+    const suggestions = (entry["suggestions"] as unknown[]).filter((s): s is string => typeof s === "string").map((s) => s.trim()).filter(Boolean);
+    reviews.set(index, suggestions);
+  }
+  return reviews;
+}
+
+/**
+ * One model call for all titles, given the local checks so its suggestions
+ * address them. Like the judge, a failed or unusable answer leaves the
+ * analyses without suggestions instead of failing the request.
+ */
+async function suggestImprovements(items: TitleAnalysis[], input: TitleInput, maxLength: number, ctx: ModelContext): Promise<Map<number, string[]>> {
+  try {
+    const generation = await ctx.provider.generate({
+      model: ctx.model,
+      system: buildSuggestInstruction(input, maxLength),
+      messages: [
+        {
+          role: "user",
+          text: items.map((item, i) => [`${i + 1}. ${item.title}`, ...item.warnings.map((w) => `   - ${w}`)].join("\n")).join("\n"),
+        },
+      ],
+      json: true,
+      responseSchema: SUGGEST_SCHEMA,
+      temperature: 0.3,
+      maxOutputTokens: 4096,
+      signal: ctx.signal,
+    });
+    return readSuggestions(generation.text, items.length);
+  } catch (err) {
+    console.error("Title suggestions call failed, returning local checks only", err);
+    return new Map();
+  }
+}
+
+/**
+ * Grades titles without generating new ones: length against `maxLength` and
+ * the mobile/desktop cut, keyword presence and position, style, clickbait
+ * flags and, with `channelId`, closeness to the channel's past titles. With
+ * `suggestions` a model pass adds improvement tips on top.
+ */
+export async function analyzeTitles(request: TitleAnalyzeRequest, options: GenerateTitlesOptions = {}): Promise<TitleAnalysisResult> {
+  const { input } = request;
+  const maxLength = input.maxLength ?? DEFAULT_MAX_LENGTH;
+  let past: PastTitle[] | null = null;
+  if (input.channelId) {
+    const channel = await getChannelStore().get(input.channelId);
+    if (!channel) throw new RequestValidationError([{ path: "channelId", message: "channel not found" }]);
+    past = channel.titles;
+  }
+
+  let items = request.titles.map((title) => analyzeTitle(title, input.keywords ?? [], maxLength, past));
+  let suggested = false;
+  let ran: { model: string; provider: ProviderId } | null = null;
+  if (request.suggestions) {
+    const { provider, model } = resolveProvider({ provider: options.provider, model: options.model });
+    const reviews = await suggestImprovements(items, input, maxLength, { provider, model, signal: options.signal });
+    items = items.map((item, i) => ({ ...item, suggestions: reviews.get(i) ?? null }));
+    suggested = reviews.size > 0;
+    ran = { model, provider: provider.id };
+  }
+
+  return {
+    items,
+    meta: {
+      count: items.length,
+      maxLength,
+      channelId: input.channelId ?? null,
+      suggested,
+      model: ran?.model ?? null,
+      provider: ran?.provider ?? null,
+      analyzedAt: new Date().toISOString(),
+    },
+  };
+}
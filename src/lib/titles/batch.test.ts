@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { generateTitles } from "./generate";
+import { TitleGenerationError } from "./errors";
+import { batchConcurrencyLimit, parseTitleBatch, runTitleBatch, summarizeBatch } from "./batch";
+import type { GenerateTitlesResult } from "./types";
+
+vi.mock("./generate", () => ({ generateTitles: vi.fn() }));
+
+function generated(title: string): GenerateTitlesResult {
+  return {
+    titles: [title],
+    items: [],
+    summary: { topic: "Rust", angle: "", audience: "", notes: "" },
+    meta: { count: 1, maxLength: 45, candidates: 1, reranked: false, model: "stub", provider: "ollama", cached: false, generatedAt: "2025-01-01T00:00:00.000Z" },
+  };
+}
+
+async function collect(batch: unknown) {
+  const results = [];
+  for await (const result of runTitleBatch(parseTitleBatch(batch))) results.push(result);
+  return results;
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.clearAllMocks();
+});
+
+describe("parseTitleBatch", () => {
+  it("rejects duplicate item ids", () => {
+    expect(() => parseTitleBatch({ items: [{ id: "a" }, { id: "a" }] })).toThrow(/Invalid request body/);
+  });
+});
+
+describe("batchConcurrencyLimit", () => {
+  it("reads TITLES_BATCH_CONCURRENCY and defaults to 4", () => {
+    expect(batchConcurrencyLimit()).toBe(4);
+    vi.stubEnv("TITLES_BATCH_CONCURRENCY", "2");
+    expect(batchConcurrencyLimit()).toBe(2);
+  });
+});
+
+describe("runTitleBatch", () => {
+  it("runs every brief and reports failures per item", async () => {
+    vi.mocked(generateTitles).mockImplementation(async (input) => {
+      if (input.description === "broken") throw new TitleGenerationError("No titles produced", null);
+      return generated(input.description!);
+    });
+    const results = await collect({
+      items: [
+        { id: "ok", description: "Rust for beginners", includeSummary: true },
+        { id: "invalid", count: 0 },
+        { id: "failed", description: "broken" },
+      ],
+    });
+    const byId = Object.fromEntries(results.map((r) => [r.id, r]));
+    expect(byId.ok).toMatchObject({ ok: true, titles: ["Rust for beginners"], summary: { topic: "Rust" } });
+    expect(byId.invalid).toMatchObject({ ok: false, status: 400 });
+    expect(byId.failed).toMatchObject({ ok: false, status: 502, error: "No titles produced" });
+    expect(summarizeBatch(results)).toEqual({ total: 3, succeeded: 1, failed: 2 });
+  });
+
+  it("leaves out the summary unless the item asks for it", async () => {
+    vi.mocked(generateTitles).mockImplementation(async (input) => generated(input.description!));
+    const [result] = await collect({ items: [{ id: "a", description: "Rust for beginners" }] });
+    expect(result).not.toHaveProperty("summary");
+  });
+
+  it("keeps at most the requested number of briefs in flight", async () => {
+    let running = 0;
+    let peak = 0;
+    vi.mocked(generateTitles).mockImplementation(async (input) => {
+      peak = Math.max(peak, ++running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      return generated(input.description!);
+    });
+    const items = Array.from({ length: 6 }, (_, i) => ({ id: String(i), description: `Brief ${i}` }));
+    expect(await collect({ items, concurrency: 2 })).toHaveLength(6);
+    expect(peak).toBe(2);
+  });
+});
@@ -0,0 +1,82 @@
+import { z } from "zod";
+import { mapConcurrent } from "@/lib/concurrency";
+import { errorPayload } from "@/lib/errors";
+import { parseWithSchema } from "@/lib/validation";
+import type { ValidationIssue } from "@/lib/validation";
+import { generateTitles } from "./generate";
+import { parseTitleRequest } from "./schema";
+import type { GenerateTitlesMeta, GenerateTitlesOptions, TitleItem, TitleSummary } from "./types";
+
+export const BATCH_MAX_ITEMS = 100;
+export const BATCH_ID_MAX_LENGTH = 100;
+
+/** `TITLES_BATCH_CONCURRENCY` caps model calls in flight per batch (default 4). */
+export function batchConcurrencyLimit(): number {
+  const value = Number(process.env.TITLES_BATCH_CONCURRENCY);
+  return Number.isInteger(value) && value > 0 ? value : 4;
+}
+
+// Only the envelope is validated up front; each brief is validated on its own
+// so one bad item is reported in its result instead of failing the batch.
+export const titleBatchFields = z.object({
+  items: z
+    .array(z.looseObject({ id: z.string({ error: "id is required" }).trim().min(1, "id is required").max(BATCH_ID_MAX_LENGTH) }))
+    .min(1, "items must not be empty")
+    .max(BATCH_MAX_ITEMS),
+  concurrency: z.number().int().min(1).optional(),
+});
+
+/** Refinement for schemas built on `titleBatchFields`: item ids must be unique. */
+export function uniqueItemIds({ items }: { items: { id: string }[] }, ctx: z.RefinementCtx) {
+  const seen = new Set<string>();
+  items.forEach((item, index) => {
+    if (seen.has(item.id)) ctx.addIssue({ code: "custom", path: ["items", index, "id"], message: `duplicate id "${item.id}"` });
+    seen.add(item.id);
+  });
+}
+
+export const titleBatchRequestSchema = titleBatchFields.superRefine(uniqueItemIds);
+
+export type TitleBatchRequest = z.infer<typeof titleBatchRequestSchema>;
+export type TitleBatchItem = TitleBatchRequest["items"][number];
+
+export type TitleBatchResult =
+  | { id: string; ok: true; titles: string[]; items: TitleItem[]; summary?: TitleSummary | null; meta: GenerateTitlesMeta }
+  | { id: string; ok: false; status: number; error: string; raw?: unknown; issues?: ValidationIssue[] };
+
+export type TitleBatchSummary = {
+  total: number;
+  succeeded: number;
+  failed: number;
+};
+
+/** Validates the batch envelope, throwing `RequestValidationError` for a missing or malformed `items` list. */
+export function parseTitleBatch(body: unknown): TitleBatchRequest {
+  return parseWithSchema(titleBatchRequestSchema, body);
+}
+
+async function runItem({ id, ...brief }: TitleBatchItem, shared: GenerateTitlesOptions): Promise<TitleBatchResult> {
+  try {
+    const { input, options, includeSummary } = parseTitleRequest(brief);
+    const { titles, items, summary, meta } = await generateTitles(input, { ...options, cache: shared.cache ?? options.cache, signal: shared.signal });
+    return { id, ok: true, titles, items, ...(includeSummary ? { summary } : {}), meta };
+  } catch (err) {
+    const { status, body } = errorPayload(err);
+    return { id, ok: false, status, ...body };
+  }
+}
+
+/**
+ * Generates titles for every brief through the regular `generateTitles` path,
+ * at most `concurrency` at a time, yielding each result as it completes.
+ * Failures are returned as `ok: false` results and never end the batch.
+ */
+export function runTitleBatch(batch: TitleBatchRequest, shared: GenerateTitlesOptions = {}): AsyncGenerator<TitleBatchResult> {
+  const limit = Math.min(batch.concurrency ?? Infinity, batchConcurrencyLimit());
+  return mapConcurrent(batch.items, limit, (item) => runItem(item, shared));
+}
+
+export function summarizeBatch(results: TitleBatchResult[]): TitleBatchSummary {
+  const succeeded = results.filter((r) => r.ok).length;
+  return { total: results.length, succeeded, failed: results.length - succeeded };
+}
@@ -0,0 +1,104 @@
+import { createHash } from "node:crypto";
+import { FileCacheStore, LruCacheStore, RedisCacheStore } from "@/lib/cache";
+import type { CacheStore } from "@/lib/cache";
+import { createRestRedisClient } from "@/lib/redis";
+import { dataPath } from "@/lib/storage/json-file";
+import { PROMPT_VERSION, titleConstraints } from "./prompt";
+import type { GenerateTitlesMeta, GenerateTitlesResult, TitleInput } from "./types";
+
+export type TitleCacheBackend = "off" | "memory" | "file" | "redis";
+
+export function titleCacheBackend(): TitleCacheBackend {
+  const backend = process.env.TITLES_CACHE;
+  return backend === "off" || backend === "file" || backend === "redis" ? backend : "memory";
+}
+
+export function titleCacheTtlMs(): number {
+  const seconds = Number(process.env.TITLES_CACHE_TTL_SECONDS);
+  return (Number.isFinite(seconds) && seconds > 0 ? seconds : 3600) * 1000;
+}
+
+let store: CacheStore<GenerateTitlesResult> | null | undefined;
+
+/** The configured cache (`TITLES_CACHE`), or `null` when caching is off. */
+export function getTitleCache(): CacheStore<GenerateTitlesResult> | null {
+  if (store !== undefined) return store;
+  switch (titleCacheBackend()) {
+    case "off":
+      store = null;
+      break;
+    case "file":
+      store = new FileCacheStore(process.env.TITLES_CACHE_DIR || dataPath("cache/titles"));
+      break;
+    case "redis": {
+      const url = process.env.CACHE_REDIS_URL;
+      if (!url) throw new Error("Missing CACHE_REDIS_URL environment variable");
+      store = new RedisCacheStore(createRestRedisClient(url, process.env.CACHE_REDIS_TOKEN), "titles");
+      break;
+    }
+    default:
+      store = new LruCacheStore(Number(process.env.TITLES_CACHE_MAX_ENTRIES) || 500);
+  }
+  return store;
+}
+
+export function setTitleCache(next: CacheStore<GenerateTitlesResult> | null) {
+  store = next;
+}
+
+const collapse = (s: string | undefined) => (s ?? "").replace(/\s+/g, " ").trim();
+
+/**
+ * Content-addressed key: briefs that differ only in whitespace, keyword
+ * order/case or niche/language case share an entry. The prompt version is
+ * part of the key so prompt changes never serve stale answers.
+ */
+export function titleCacheKey(input: TitleInput, provider: string, model: string): string {
+  const normalized = {
+    description: collapse(input.description),
+    keywords: Array.from(new Set((input.keywords ?? []).map((k) => collapse(k).toLowerCase()).filter(Boolean))).sort(),
+    niche: collapse(input.niche).toLowerCase(),
+    language: collapse(input.language).toLowerCase(),
+    count: input.count ?? null,
+    maxLength: input.maxLength ?? null,
+    overLength: input.overLength ?? "trim",
+    rerankCandidates: titleConstraints(input).rerankCandidates,
+    diversity: titleConstraints(input).diversity,
+    similarity: input.similarity ?? "lexical",
+    styles: [...(input.styles ?? [])].sort(),
+    // Editing a profile changes its prompt, so its version is part of the key
+    profile: input.voice ? { id: input.voice.id, updatedAt: input.voice.updatedAt } : null,
+    examples: input.examples ?? null,
+    summary: input.summary ?? null,
+    exclude: Array.from(new Set((input.exclude ?? []).map((t) => collapse(t).toLowerCase()))).sort(),
+    like: collapse(input.like).toLowerCase(),
+    provider,
+    model,
+    promptVersion: PROMPT_VERSION,
+  };
+  return createHash("sha256").update(JSON.stringify(normalized)).digest("hex");
+}
+
+/** The result as it was first generated (`meta.cached` false); a cache hit and the original answer share its ETag. */
+export function asGenerated<T extends { meta: GenerateTitlesMeta }>(result: T): T {
+  return { ...result, meta: { ...result.meta, cached: false } };
+}
+
+/** Cache reads and writes never fail a request; a broken backend just means a miss. */
+export async function readCachedTitles(key: string): Promise<GenerateTitlesResult | null> {
+  try {
+    const entry = await getTitleCache()?.get(key);
+    return entry ? { ...entry.value, meta: { ...entry.value.meta, cached: true } } : null;
+  } catch (err) {
+    console.error("Title cache read failed", err);
+    return null;
+  }
+}
+
+export async function writeCachedTitles(key: string, result: GenerateTitlesResult): Promise<void> {
+  try {
+    await getTitleCache()?.set(key, result, titleCacheTtlMs());
+  } catch (err) {
+    console.error("Title cache write failed", err);
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ModelProvider } from "@/lib/providers";
+import { buildSimilarity, collapseNearDuplicates, mmrSelect } from "./diversity";
+import type { SimilarityIndex } from "./diversity";
+import type { ModelContext, TitleItem } from "./types";
+
+const SCORES = { keywordCoverage: null, lengthFit: 100, frontLoading: null, readability: 100, clickbaitPenalty: 0, overall: 50 };
+
+const item = (title: string, judge?: number): TitleItem => ({ title, status: "original", scores: SCORES, ...(judge ? { judge: { score: judge, rationale: "" } } : {}) });
+
+// Symmetric similarity from a list of [i, j, value] pairs; everything else is 0
+function matrix(pairs: [number, number, number][]): SimilarityIndex {
+  const similarity = (i: number, j: number) => pairs.find(([a, b]) => (a === i && b === j) || (a === j && b === i))?.[2] ?? 0;
+  return { similarity, isDuplicate: (i, j) => similarity(i, j) >= 0.7 };
+}
+
+function ctx(embed?: ModelProvider["embed"]): ModelContext {
+  return { provider: { id: "ollama", defaultModel: "stub", ...(embed ? { embed } : {}) } as unknown as ModelProvider, model: "stub" };
+}
+
+describe("mmrSelect", () => {
+  // 0 and 1 are the two best titles but say nearly the same thing
+  const items = [item("Rust Ownership Explained", 9), item("Rust Ownership, Explained Simply", 9), item("Why Rust Feels Hard at First", 7), item("Rust vs Go", 5)];
+  const index = matrix([[0, 1, 0.6]]);
+
+  it("picks by quality alone with diversity 0", () => {
+    expect(mmrSelect(items, [0, 1, 2, 3], 3, 0, index)).toEqual([0, 1, 2]);
+  });
+
+  it("skips a title too similar to one already picked as diversity rises", () => {
+    expect(mmrSelect(items, [0, 1, 2, 3], 3, 0.5, index)).toEqual([0, 2, 3]);
+  });
+
+  it("only picks from the candidates and stops when they run out", () => {
+    expect(mmrSelect(items, [3, 2], 5, 0.3, index)).toEqual([2, 3]);
+  });
+
+  it("uses scores.overall for titles the judge didn't score", () => {
+    const unjudged = [item("A"), { ...item("B"), scores: { ...SCORES, overall: 90 } }];
+    expect(mmrSelect(unjudged, [0, 1], 1, 0, matrix([]))).toEqual([1]);
+  });
+});
+
+describe("collapseNearDuplicates", () => {
+  it("keeps the first title of each group and lists the rest on it", () => {
+    const items = [item("A"), item("B"), item("A2"), item("A3")];
+    const kept = collapseNearDuplicates(items, matrix([[0, 2, 0.8], [0, 3, 0.9]]));
+    expect(kept).toEqual([0, 1]);
+    expect(items[0].duplicates).toEqual(["A2", "A3"]);
+    expect(items[1].duplicates).toBeUndefined();
+  });
+});
+
+describe("buildSimilarity", () => {
+  const items = [item("Rust Ownership Explained"), item("Rust Ownership Explained Simply"), item("Understanding the borrow checker")];
+
+  it("compares titles lexically without embeddings", async () => {
+    const index = await buildSimilarity(items, false, ctx());
+    expect(index.isDuplicate(0, 1)).toBe(true);
+    expect(index.isDuplicate(0, 2)).toBe(false);
+  });
+
+  it("also flags titles whose embeddings are close", async () => {
+    const embed = vi.fn(async ({ texts }: { texts: string[] }) => texts.map((t) => (t.startsWith("Rust") || t.includes("borrow") ? [1, 0] : [0, 1])));
+    const index = await buildSimilarity(items, true, ctx(embed));
+    expect(embed).toHaveBeenCalledOnce();
+    expect(index.isDuplicate(0, 2)).toBe(true);
+    expect(index.similarity(0, 2)).toBeCloseTo(1);
+  });
+});
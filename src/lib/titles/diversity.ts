@@ -0,0 +1,78 @@
+import { cosineSimilarity, EMBEDDING_DUPLICATE_THRESHOLD, LEXICAL_DUPLICATE_THRESHOLD, lexicalSimilarity } from "./similarity";
+import type { ModelContext, TitleItem } from "./types";
+
+/** Pairwise comparison of the items passed to `buildSimilarity`, by index. */
+export type SimilarityIndex = {
+  similarity(i: number, j: number): number;
+  isDuplicate(i: number, j: number): boolean;
+};
+
+/**
+ * Lexical similarity, plus embedding cosine similarity when `embeddings` is
+ * set and the provider can embed. Embedding failures fall back to lexical.
+ */
+export async function buildSimilarity(items: TitleItem[], embeddings: boolean, ctx: ModelContext): Promise<SimilarityIndex> {
+  let vectors: number[][] | null = null;
+  if (embeddings && ctx.provider.embed && items.length > 1) {
+    try {
+      const result = await ctx.provider.embed({ texts: items.map((item) => item.title), signal: ctx.signal });
+      vectors = result.length === items.length ? result : null;
+    } catch (err) {
+      console.error("Title embeddings failed, using lexical similarity only", err);
+    }
+  }
+
+  const lexical = (i: number, j: number) => lexicalSimilarity(items[i].title, items[j].title);
+  const semantic = (i: number, j: number) => (vectors ? cosineSimilarity(vectors[i], vectors[j]) : 0);
+  return {
+    similarity: (i, j) => Math.max(lexical(i, j), semantic(i, j)),
+    isDuplicate: (i, j) => lexical(i, j) >= LEXICAL_DUPLICATE_THRESHOLD || (vectors !== null && semantic(i, j) >= EMBEDDING_DUPLICATE_THRESHOLD),
+  };
+}
+
+/**
+ * Groups near-duplicates. `items` must be in priority order: the first item
+ * of each group is kept and lists the others in `duplicates`. Returns the
+ * kept items' indexes, in order.
+ */
+export function collapseNearDuplicates(items: TitleItem[], index: SimilarityIndex): number[] {
+  const kept: number[] = [];
+  for (let i = 0; i < items.length; i++) {
+    const into = kept.find((k) => index.isDuplicate(k, i));
+    if (into === undefined) {
+      kept.push(i);
+      continue;
+    }
+    items[into] = { ...items[into], duplicates: [...(items[into].duplicates ?? []), items[i].title] };
+  }
+  return kept;
+}
+
+/** How good a title is on a 0-1 scale: the judge's score when there is one, else the deterministic score. */
+function quality(item: TitleItem): number {
+  return item.judge ? item.judge.score / 10 : item.scores.overall / 100;
+}
+
+/**
+ * Maximal marginal relevance: repeatedly picks the candidate with the best
+ * `(1 - diversity) * quality - diversity * (similarity to anything already picked)`.
+ * `diversity` 0 is pure quality order; higher values favor variety.
+ */
+export function mmrSelect(items: TitleItem[], candidates: number[], count: number, diversity: number, index: SimilarityIndex): number[] {
+  const picked: number[] = [];
+  const remaining = [...candidates];
+  while (picked.length < count && remaining.length) {
+    let best = 0;
+    let bestScore = -Infinity;
+    remaining.forEach((i, position) => {
+      const redundancy = picked.length ? Math.max(...picked.map((p) => index.similarity(p, i))) : 0;
+      const score = (1 - diversity) * quality(items[i]) - diversity * redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        best = position;
+      }
+    });
+    picked.push(remaining.splice(best, 1)[0]);
+  }
+  return picked;
+}
@@ -0,0 +1,15 @@
+/**
+ * Raised when the model answered but the answer is unusable. Routes surface
+ * it as `{ error, raw }` with `status` (502).
+ */
+export class TitleGenerationError extends Error {
+  readonly status: number;
+  readonly raw: unknown;
+
+  constructor(message: string, raw: unknown, status = 502) {
+    super(message);
+    this.name = "TitleGenerationError";
+    this.status = status;
+    this.raw = raw;
+  }
+}
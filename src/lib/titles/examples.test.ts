@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { PastTitle } from "@/lib/channels/types";
+import type { ModelProvider } from "@/lib/providers";
+import { exampleRules, pickExamples } from "./examples";
+import type { ModelContext } from "./types";
+
+const past = (title: string, views: number | null, ctr: number | null): PastTitle => ({ title, views, ctr, addedAt: "2025-01-01T00:00:00.000Z" });
+
+const TITLES = [
+  past("Rust Ownership Explained", 50_000, 7.5),
+  past("Rust Lifetimes in 10 Minutes", 2_000, 2.1),
+  past("My Desk Setup Tour", 90_000, 9.8),
+  past("Baking Sourdough Bread", 1_000, 1.0),
+];
+
+function ctx(embed?: ModelProvider["embed"]): ModelContext {
+  const provider = { id: "ollama", defaultModel: "stub", generate: vi.fn(), stream: vi.fn(), ...(embed ? { embed } : {}) } as unknown as ModelProvider;
+  return { provider, model: "stub" };
+}
+
+describe("pickExamples", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("keeps only titles relevant to the brief, better performers first", async () => {
+    const examples = await pickExamples({ description: "Learning Rust ownership and lifetimes" }, TITLES, false, ctx());
+    expect(examples.map((e) => e.title)).toEqual(["Rust Ownership Explained", "Rust Lifetimes in 10 Minutes"]);
+    expect(examples[0]).toEqual({ title: "Rust Ownership Explained", views: 50_000, ctr: 7.5 });
+  });
+
+  it("falls back to the best performers when nothing is relevant", async () => {
+    const examples = await pickExamples({ description: "Houseplants for beginners" }, TITLES, false, ctx(), 2);
+    expect(examples.map((e) => e.title)).toEqual(["My Desk Setup Tour", "Rust Ownership Explained"]);
+  });
+
+  it("ranks by embedding similarity when asked and the provider can embed", async () => {
+    // The brief is closest to the sourdough title, which keyword overlap would not find
+    const embed = vi.fn(async ({ texts }: { texts: string[] }) => texts.map((t) => (t.includes("Sourdough") || t.includes("loaf") ? [1, 0] : [0, 1])));
+    const examples = await pickExamples({ description: "How to bake a crusty loaf" }, TITLES, true, ctx(embed), 1);
+    expect(embed).toHaveBeenCalledOnce();
+    expect(examples.map((e) => e.title)).toEqual(["Baking Sourdough Bread"]);
+  });
+
+  it("uses keyword overlap when embeddings fail", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const embed = vi.fn(async () => {
+      throw new Error("embeddings down");
+    });
+    const examples = await pickExamples({ description: "Rust ownership" }, TITLES, true, ctx(embed), 1);
+    expect(examples.map((e) => e.title)).toEqual(["Rust Ownership Explained"]);
+  });
+});
+
+describe("exampleRules", () => {
+  it("lists each example with the numbers it has", () => {
+    expect(exampleRules([])).toEqual([]);
+    const [intro, ...lines] = exampleRules([
+      { title: "Rust Ownership Explained", views: 50_000, ctr: 7.5 },
+      { title: "My Desk Setup Tour", views: null, ctr: null },
+    ]);
+    expect(intro).toMatch(/patterns/);
+    expect(lines).toEqual(["  - Rust Ownership Explained (7.5% CTR, 50,000 views)", "  - My Desk Setup Tour"]);
+  });
+});
@@ -0,0 +1,104 @@
+import { getChannelStore } from "@/lib/channels/store";
+import type { PastTitle } from "@/lib/channels/types";
+import { RequestValidationError } from "@/lib/validation";
+import { contentTokens, cosineSimilarity } from "./similarity";
+import type { ModelContext, TitleExample, TitleInput } from "./types";
+
+export const DEFAULT_EXAMPLE_COUNT = 5;
+/** Past titles embedded per request with `similarity: "embeddings"`, best performers first. */
+const EMBEDDING_POOL = 200;
+/** Share of relevance (vs. performance) in an example's score. */
+const RELEVANCE_WEIGHT = 0.6;
+
+// Each value's percentile among the known values (0 = worst, 1 = best); unknown stays null
+function percentiles(values: (number | null)[]): (number | null)[] {
+  const known = values.filter((v): v is number => v !== null).sort((a, b) => a - b);
+  return values.map((v) => {
+    if (v === null) return null;
+    if (known.length < 2) return 0.5;
+    const below = known.findIndex((k) => k >= v);
+    const upTo = known.findLastIndex((k) => k <= v);
+    return (below + upTo) / 2 / (known.length - 1);
+  });
+}
+
+/** 0-1 from the channel-relative views and CTR percentiles; 0.5 for titles without numbers. */
+function performance(titles: PastTitle[]): number[] {
+  const views = percentiles(titles.map((t) => t.views));
+  const ctr = percentiles(titles.map((t) => t.ctr));
+  return titles.map((_, i) => {
+    const known = [views[i], ctr[i]].filter((v): v is number => v !== null);
+    return known.length ? known.reduce((a, b) => a + b, 0) / known.length : 0.5;
+  });
+}
+
+function briefText(input: TitleInput): string {
+  return [input.description, ...(input.keywords ?? []), input.niche].filter(Boolean).join(" ");
+}
+
+/** Share of the title's content words that also appear in the brief. */
+function lexicalRelevance(titles: PastTitle[], input: TitleInput): number[] {
+  const brief = contentTokens(briefText(input));
+  return titles.map(({ title }) => {
+    const words = [...contentTokens(title)];
+    return words.length ? words.filter((w) => brief.has(w)).length / words.length : 0;
+  });
+}
+
+async function embeddingRelevance(titles: PastTitle[], perf: number[], input: TitleInput, ctx: ModelContext): Promise<number[] | null> {
+  if (!ctx.provider.embed) return null;
+  const pool = titles.map((_, i) => i).sort((a, b) => perf[b] - perf[a]).slice(0, EMBEDDING_POOL);
+  try {
+    const [brief, ...vectors] = await ctx.provider.embed({ texts: [briefText(input), ...pool.map((i) => titles[i].title)], signal: ctx.signal });
+    if (vectors.length !== pool.length) return null;
+    const relevance = titles.map(() => 0);
+    pool.forEach((i, j) => (relevance[i] = Math.max(0, cosineSimilarity(brief, vectors[j]))));
+    return relevance;
+  } catch (err) {
+    console.error("Example embeddings failed, using keyword overlap", err);
+    return null;
+  }
+}
+
+/**
+ * The channel's most relevant high performers for this brief. Relevance is
+ * keyword overlap with the brief, or embedding similarity when `embeddings`
+ * is set and the provider supports it. With no relevant title at all the
+ * best performers are used.
+ */
+export async function pickExamples(
+  input: TitleInput,
+  titles: PastTitle[],
+  embeddings: boolean,
+  ctx: ModelContext,
+  limit = DEFAULT_EXAMPLE_COUNT,
+): Promise<TitleExample[]> {
+  const perf = performance(titles);
+  const relevance = (embeddings ? await embeddingRelevance(titles, perf, input, ctx) : null) ?? lexicalRelevance(titles, input);
+  const anyRelevant = relevance.some((r) => r > 0);
+  return titles
+    .map((title, i) => ({ title, i, score: anyRelevant ? RELEVANCE_WEIGHT * relevance[i] + (1 - RELEVANCE_WEIGHT) * perf[i] : perf[i] }))
+    .filter(({ i }) => !anyRelevant || relevance[i] > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ title: { title, views, ctr } }) => ({ title, views, ctr }));
+}
+
+/** Resolves `channelId` into few-shot `examples`, or throws a 400 naming the field. */
+export async function withExamples(input: TitleInput, ctx: ModelContext): Promise<TitleInput> {
+  if (!input.channelId) return input;
+  const channel = await getChannelStore().get(input.channelId);
+  if (!channel) throw new RequestValidationError([{ path: "channelId", message: "channel not found" }]);
+  return { ...input, examples: await pickExamples(input, channel.titles, input.similarity === "embeddings", ctx) };
+}
+
+function formatExample({ title, views, ctr }: TitleExample): string {
+  const numbers = [ctr !== null ? `${ctr}% CTR` : null, views !== null ? `${views.toLocaleString("en-US")} views` : null].filter(Boolean);
+  return numbers.length ? `  - ${title} (${numbers.join(", ")})` : `  - ${title}`;
+}
+
+/** System instruction lines listing the examples. */
+export function exampleRules(examples: TitleExample[]): string[] {
+  if (!examples.length) return [];
+  return ["- These titles performed well on this channel. Follow their patterns (structure, length, wording), not their topics:", ...examples.map(formatExample)];
+}
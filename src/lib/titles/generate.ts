@@ -0,0 +1,189 @@
+import { resolveProvider } from "@/lib/providers";
+import type { GenerateRequest, ProviderId } from "@/lib/providers";
+import { readCachedTitles, titleCacheKey, writeCachedTitles } from "./cache";
+import { TitleGenerationError } from "./errors";
+import { normalizeCandidatesFromJson, normalizeSummaryFromJson, parseModelJson } from "./parse";
+import { buildSimilarity, collapseNearDuplicates, mmrSelect } from "./diversity";
+import { withExamples } from "./examples";
+import { judgeTitles } from "./judge";
+import { buildSystemInstruction, buildUserPrompt, DEFAULT_RERANK_COUNT, RESPONSE_SCHEMA, titleConstraints } from "./prompt";
+import { rewriteOverLength } from "./repair";
+import { scoreItem } from "./score";
+import { fitTitle } from "./shorten";
+import { LEXICAL_DUPLICATE_THRESHOLD, lexicalSimilarity, sameTitle } from "./similarity";
+import { applyStyle } from "./styles";
+import { applyVoice, withVoice } from "./voice";
+import type { FittedTitle, GenerateTitlesMeta, GenerateTitlesOptions, GenerateTitlesResult, ModelContext, TitleCandidate, TitleConstraints, TitleInput, TitleItem, TitleSummary } from "./types";
+
+export function buildGenerateRequest(input: TitleInput, model: string, options: GenerateTitlesOptions): GenerateRequest {
+  const constraints = titleConstraints(input);
+  return {
+    model,
+    system: buildSystemInstruction(constraints),
+    messages: [{ role: "user", text: buildUserPrompt(input, constraints) }],
+    // Encourage strict JSON output
+    json: true,
+    // Provide a response schema to strongly bias JSON structure
+    responseSchema: RESPONSE_SCHEMA,
+    temperature: 0.7,
+    topP: 0.9,
+    topK: 32,
+    // Room for 30+ reranking candidates
+    maxOutputTokens: constraints.rerankCandidates ? 4096 : 2048,
+    signal: options.signal,
+  };
+}
+
+export type ParsedAnswer = {
+  candidates: TitleCandidate[];
+  summary: TitleSummary | null;
+};
+
+/** Parses the model's full text answer into raw title candidates and the summary, or throws `TitleGenerationError`. */
+export function parseAnswer(text: string): ParsedAnswer {
+  const parsed = parseModelJson(text);
+  if (!parsed) {
+    throw new TitleGenerationError("Model returned non-JSON output", text);
+  }
+
+  const candidates = normalizeCandidatesFromJson(parsed);
+  if (!candidates.length) {
+    throw new TitleGenerationError("No titles produced", parsed);
+  }
+  return { candidates, summary: normalizeSummaryFromJson(parsed) };
+}
+
+/** Whether `title` repeats, or nearly repeats, one of the request's excluded titles. */
+export function isExcluded(title: string, exclude: string[]): boolean {
+  return exclude.some((e) => lexicalSimilarity(e, title) >= LEXICAL_DUPLICATE_THRESHOLD);
+}
+
+/** Enforces the brand voice, the style check, the exclude list and the `like` anchor on a fitted title; `null` drops it. */
+export function finishTitle(fitted: FittedTitle, constraints: TitleConstraints): FittedTitle | null {
+  const voiced = applyVoice(fitted, constraints.voice, constraints.keywords);
+  const styled = voiced && applyStyle(voiced, constraints.styles);
+  if (!styled || isExcluded(styled.title, constraints.exclude)) return null;
+  return constraints.like && sameTitle(styled.title, constraints.like) ? null : styled;
+}
+
+/**
+ * Fits candidates into the length budget, drops those failing the voice,
+ * their style's check or the exclude list, dedupes the final strings and applies `count`. In `rewrite` mode the
+ * over-length candidates go through one repair call first; anything it can't
+ * fix is trimmed at a word boundary.
+ */
+export async function fitTitles(candidates: TitleCandidate[], constraints: TitleConstraints, repair: ModelContext): Promise<FittedTitle[]> {
+  const { maxLength, overLength } = constraints;
+  const overBudget = candidates.filter((c) => c.title.length > maxLength).map((c) => c.title);
+  const rewrites = new Map<string, string | null>();
+  if (overLength === "rewrite" && overBudget.length) {
+    const results = await rewriteOverLength(overBudget, maxLength, repair);
+    overBudget.forEach((c, i) => rewrites.set(c, results[i]));
+  }
+
+  const items: FittedTitle[] = [];
+  const seen = new Set<string>();
+  for (const candidate of candidates) {
+    if (constraints.count !== null && items.length >= constraints.count) break;
+    const rewrite = rewrites.get(candidate.title);
+    const fitted: FittedTitle = rewrite ? { title: rewrite, status: "rewritten" } : fitTitle(candidate.title, maxLength);
+    const explanation = candidate.explanation ? { explanation: candidate.explanation } : {};
+    const item = finishTitle({ ...fitted, style: candidate.style, ...explanation }, constraints);
+    if (!item || !item.title || seen.has(item.title)) continue;
+    seen.add(item.title);
+    items.push(item);
+  }
+  return items;
+}
+
+export type TitleSelection = {
+  items: TitleItem[];
+  /** Titles considered before cutting to `count`. */
+  candidates: number;
+  reranked: boolean;
+};
+
+/**
+ * Everything after the model's answer: fit and score the candidates and
+ * collapse near-duplicates. Without reranking the first of each group (in
+ * model order) is kept; in rerank mode the judge orders them and MMR picks a
+ * varied best `count`.
+ */
+export async function selectTitles(
+  candidates: TitleCandidate[],
+  summary: TitleSummary | null,
+  input: TitleInput,
+  constraints: TitleConstraints,
+  ctx: ModelContext,
+): Promise<TitleSelection> {
+  const rerank = constraints.rerankCandidates !== null;
+  const fitted = await fitTitles(candidates, { ...constraints, count: null }, ctx);
+  const scored = fitted.map((f) => scoreItem(f, constraints));
+  if (!rerank) {
+    const kept = collapseNearDuplicates(scored, await buildSimilarity(scored, false, ctx)).map((i) => scored[i]);
+    return { items: constraints.count === null ? kept : kept.slice(0, constraints.count), candidates: scored.length, reranked: false };
+  }
+
+  const judged = await judgeTitles(scored, summary, input, ctx);
+  const index = await buildSimilarity(judged.items, constraints.embeddings, ctx);
+  const kept = collapseNearDuplicates(judged.items, index);
+  const picked = mmrSelect(judged.items, kept, constraints.count ?? DEFAULT_RERANK_COUNT, constraints.diversity, index);
+  return { items: picked.map((i) => judged.items[i]), candidates: scored.length, reranked: judged.judged };
+}
+
+/**
+ * Assembles the response for a selection. Throws `TitleGenerationError` when
+ * no candidate survived fitting, the voice, the style checks and the exclude
+ * list, so an empty answer is an error rather than a `200` without titles.
+ */
+export function buildResult(
+  { items, candidates, reranked }: TitleSelection,
+  summary: TitleSummary | null,
+  provider: ProviderId,
+  model: string,
+  constraints: TitleConstraints,
+): GenerateTitlesResult {
+  if (!items.length) throw new TitleGenerationError("No titles passed the length, voice and style checks", { candidates });
+  const meta: GenerateTitlesMeta = {
+    count: items.length,
+    maxLength: constraints.maxLength,
+    candidates,
+    reranked,
+    model,
+    provider,
+    cached: false,
+    generatedAt: new Date().toISOString(),
+    ...(constraints.examples ? { examples: constraints.examples.map((e) => e.title) } : {}),
+  };
+  return {
+    titles: items.map((item) => item.title),
+    items,
+    summary,
+    meta,
+  };
+}
+
+/** Loads what the request refers to by id: the voice profile and the channel's few-shot examples. */
+export async function resolveInput(request: TitleInput, ctx: ModelContext): Promise<TitleInput> {
+  return withExamples(await withVoice(request), ctx);
+}
+
+export async function generateTitles(request: TitleInput, options: GenerateTitlesOptions = {}): Promise<GenerateTitlesResult> {
+  const { provider, model } = resolveProvider({ provider: options.provider, model: options.model });
+  const input = await resolveInput(request, { provider, model, signal: options.signal });
+  const cacheKey = titleCacheKey(input, provider.id, model);
+  if (options.cache !== "bypass") {
+    const cached = await readCachedTitles(cacheKey);
+    if (cached) return cached;
+  }
+
+  const constraints = titleConstraints(input);
+  const generation = await provider.generate(buildGenerateRequest(input, model, options));
+  const { candidates, summary: read } = parseAnswer(generation.text);
+  // A corrected summary from the request wins over the model's own reading
+  const summary = input.summary ?? read;
+  const selection = await selectTitles(candidates, summary, input, constraints, { provider, model, signal: options.signal });
+  const result = buildResult(selection, summary, generation.provider, generation.model, constraints);
+  await writeCachedTitles(cacheKey, result);
+  return result;
+}
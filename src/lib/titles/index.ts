@@ -0,0 +1,21 @@
+export { analyzeTitle, analyzeTitles, DESKTOP_TRUNCATION_LENGTH, MOBILE_TRUNCATION_LENGTH, parseTitleAnalyze, titleAnalyzeSchema } from "./analyze";
+export type { DuplicateRisk, KeywordCheck, TitleAnalysis, TitleAnalysisResult, TitleAnalyzeRequest, TruncationCheck } from "./analyze";
+export { batchConcurrencyLimit, parseTitleBatch, runTitleBatch, summarizeBatch, titleBatchFields, titleBatchRequestSchema, uniqueItemIds } from "./batch";
+export type { TitleBatchItem, TitleBatchRequest, TitleBatchResult, TitleBatchSummary } from "./batch";
+export { asGenerated, getTitleCache, setTitleCache, titleCacheKey, titleCacheTtlMs } from "./cache";
+export { generateTitles } from "./generate";
+export { TitleGenerationError } from "./errors";
+export { normalizeTitlesFromJson } from "./parse";
+export { DEFAULT_MAX_LENGTH } from "./prompt";
+export { parseTitleRefine, refineTitle, titleRefineSchema } from "./refine";
+export type { RefineTurn, TitleRefineRequest, TitleRefineResult } from "./refine";
+export { parseTitleRewrite, rewriteTitle, titleRewriteSchema } from "./rewrite";
+export type { TitleRewriteRequest, TitleRewriteResult } from "./rewrite";
+export { cosineSimilarity, lexicalSimilarity } from "./similarity";
+export { scoreTitle } from "./score";
+export { fitTitle, shortenTitle } from "./shorten";
+export { parseTitleRequest, titleItemSchema, titleRequestSchema, titleSummarySchema, withoutModelOverrides } from "./schema";
+export type { TitleRequest } from "./schema";
+export type * from "./types";
+export { generateTitlesStream } from "./stream";
+export type { TitleStreamEvent } from "./stream";
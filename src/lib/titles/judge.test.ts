@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { GenerateRequest, ModelProvider } from "@/lib/providers";
+import { judgeTitles } from "./judge";
+import type { ModelContext, TitleItem } from "./types";
+
+const item = (title: string, overall: number): TitleItem => ({
+  title,
+  status: "original",
+  scores: { keywordCoverage: null, lengthFit: 100, frontLoading: null, readability: 100, clickbaitPenalty: 0, overall },
+});
+
+const ITEMS = [item("Rust Ownership Explained", 70), item("Rust in 100 Seconds", 90), item("Why Rust Feels Hard", 80)];
+const SUMMARY = { topic: "Rust ownership", angle: "demystify the borrow checker", audience: "developers new to Rust", notes: "" };
+
+function ctx(generate: (req: GenerateRequest) => Promise<string>): ModelContext {
+  const provider = {
+    id: "ollama",
+    defaultModel: "stub",
+    generate: vi.fn(async (req: GenerateRequest) => ({ text: await generate(req), provider: "ollama", model: "stub" })),
+  } as unknown as ModelProvider;
+  return { provider, model: "stub" };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("judgeTitles", () => {
+  it("orders titles by the judge's score and attaches its verdict", async () => {
+    const answer = { rankings: [{ index: 1, score: 9, rationale: " Names the topic. " }, { index: 2, score: 4, rationale: "Vague." }, { index: 3, score: 7, rationale: "Relatable." }] };
+    const { items, judged } = await judgeTitles(ITEMS, SUMMARY, { description: "Rust ownership" }, ctx(async () => JSON.stringify(answer)));
+    expect(judged).toBe(true);
+    expect(items.map((i) => i.title)).toEqual(["Rust Ownership Explained", "Why Rust Feels Hard", "Rust in 100 Seconds"]);
+    expect(items[0].judge).toEqual({ score: 9, rationale: "Names the topic." });
+  });
+
+  it("builds the rubric from the summary and numbers the candidates", async () => {
+    let request: GenerateRequest | null = null;
+    await judgeTitles(ITEMS, SUMMARY, { description: "Rust ownership", keywords: ["rust"] }, ctx(async (req) => ((request = req), "{}")));
+    expect(request!.system).toContain('"demystify the borrow checker"');
+    expect(request!.system).toContain("(rust)");
+    expect(request!.messages[0].text).toBe("1. Rust Ownership Explained\n2. Rust in 100 Seconds\n3. Why Rust Feels Hard");
+  });
+
+  it("clamps scores, ignores bad entries and puts unjudged titles last", async () => {
+    const answer = { rankings: [{ index: 3, score: 42, rationale: "Great" }, { index: 7, score: 5 }, { index: 3, score: 1 }, { index: "x", score: 5 }] };
+    const { items, judged } = await judgeTitles(ITEMS, SUMMARY, {}, ctx(async () => JSON.stringify(answer)));
+    expect(judged).toBe(true);
+    expect(items.map((i) => [i.title, i.judge?.score])).toEqual([
+      ["Why Rust Feels Hard", 10],
+      ["Rust in 100 Seconds", undefined],
+      ["Rust Ownership Explained", undefined],
+    ]);
+  });
+
+  it("falls back to the deterministic score when the judge call fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { items, judged } = await judgeTitles(ITEMS, SUMMARY, {}, ctx(async () => Promise.reject(new Error("upstream down"))));
+    expect(judged).toBe(false);
+    expect(items.map((i) => i.title)).toEqual(["Rust in 100 Seconds", "Why Rust Feels Hard", "Rust Ownership Explained"]);
+    expect(items.every((i) => !i.judge)).toBe(true);
+  });
+});
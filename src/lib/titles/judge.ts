@@ -0,0 +1,98 @@
+import { parseModelJson } from "./parse";
+import type { ModelContext, TitleInput, TitleItem, TitleJudgement, TitleSummary } from "./types";
+
+const JUDGE_SCHEMA = {
+  type: "object",
+  properties: {
+    rankings: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          index: { type: "integer" },
+          score: { type: "number" },
+          rationale: { type: "string" },
+        },
+        required: ["index", "score", "rationale"],
+      },
+    },
+  },
+  required: ["rankings"],
+};
+
+/** Rubric lines grounded in the model's own reading of the brief; falls back to the raw brief without a summary. */
+function buildRubric(summary: TitleSummary | null, input: TitleInput): string[] {
+  const lines: string[] = [];
+  if (summary?.topic) lines.push(`- Topic fit: does the title make clear the video is about "${summary.topic}"?`);
+  if (summary?.angle) lines.push(`- Angle: does it convey the angle "${summary.angle}"?`);
+  if (summary?.audience) lines.push(`- Audience: would "${summary.audience}" click it and feel it was written for them?`);
+  if (!summary?.topic && input.description) lines.push(`- Topic fit: does the title directly answer this description: "${input.description.slice(0, 500)}"?`);
+  if (input.keywords?.length) lines.push(`- Search: does it use the keywords naturally (${input.keywords.join(", ")})?`);
+  if (input.voice?.tone.length) lines.push(`- Voice: does it sound ${input.voice.tone.join(", ")}?`);
+  lines.push("- Clarity: is it instantly understandable, specific and concise?");
+  lines.push("- Honesty: penalize clickbait, hype and promises the video may not keep.");
+  return lines;
+}
+
+function buildJudgeInstruction(summary: TitleSummary | null, input: TitleInput) {
+  return [
+    "You are a YouTube title editor judging candidate titles for one video.",
+    "Rubric:",
+    ...buildRubric(summary, input),
+    ...(summary?.notes ? [`Editor notes: ${summary.notes}`] : []),
+    "Score every candidate from 1 (unusable) to 10 (would publish as-is) and give a one-sentence rationale naming its main strength or flaw.",
+    'Respond with JSON only: {"rankings": [{"index": number, "score": number, "rationale": string}]}, one entry per candidate, using the candidate numbers given.',
+  ].join("\n");
+}
+
+function readJudgements(text: string, size: number): Map<number, TitleJudgement> {
+  const parsed = parseModelJson(text) as { rankings?: unknown } | null;
+  const judgements = new Map<number, TitleJudgement>();
+  if (!Array.isArray(parsed?.rankings)) return judgements;
+  for (const entry of parsed.rankings as Record<string, unknown>[]) {
+    const index = Number(entry?.["index"]) - 1;
+    const score = Number(entry?.["score"]);
+    if (!Number.isInteger(index) || index < 0 || index >= size || !Number.isFinite(score) || judgements.has(index)) continue;
+    const rationale = typeof entry["rationale"] === "string" ? entry["rationale"].trim() : "";
+    judgements.set(index, { score: Math.min(10, Math.max(1, score)), rationale });
+  }
+  return judgements;
+}
+
+// Judged titles first by judge score; ties and unjudged titles fall back to the deterministic score
+function compareItems(a: TitleItem, b: TitleItem): number {
+  const judged = (b.judge ? 1 : 0) - (a.judge ? 1 : 0);
+  if (judged) return judged;
+  return (b.judge?.score ?? 0) - (a.judge?.score ?? 0) || b.scores.overall - a.scores.overall;
+}
+
+/**
+ * Second model call that scores every candidate against a rubric built from
+ * the summary, then orders them best first. If the judge call fails or its
+ * answer is unusable, candidates are ordered by `scores.overall` instead and
+ * `judged` is false.
+ */
+export async function judgeTitles(items: TitleItem[], summary: TitleSummary | null, input: TitleInput, ctx: ModelContext): Promise<{ items: TitleItem[]; judged: boolean }> {
+  let judgements = new Map<number, TitleJudgement>();
+  try {
+    const generation = await ctx.provider.generate({
+      model: ctx.model,
+      system: buildJudgeInstruction(summary, input),
+      messages: [{ role: "user", text: items.map((item, i) => `${i + 1}. ${item.title}`).join("\n") }],
+      json: true,
+      responseSchema: JUDGE_SCHEMA,
+      temperature: 0,
+      maxOutputTokens: 4096,
+      signal: ctx.signal,
+    });
+    judgements = readJudgements(generation.text, items.length);
+  } catch (err) {
+    console.error("Title judge call failed, ordering by deterministic score", err);
+  }
+
+  const judged = items.map((item, i) => {
+    const judge = judgements.get(i);
+    return judge ? { ...item, judge } : item;
+  });
+  return { items: judged.sort(compareItems), judged: judgements.size > 0 };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { normalizeCandidatesFromJson, normalizeSummaryFromJson, normalizeTitlesFromJson, parseModelJson } from "./parse";
+
+describe("parseModelJson", () => {
+  it("parses plain JSON", () => {
+    expect(parseModelJson('{"titles":[]}')).toEqual({ titles: [] });
+  });
+
+  it("tolerates markdown code fences", () => {
+    expect(parseModelJson('```json\n{"titles":["A"]}\n```')).toEqual({ titles: ["A"] });
+  });
+
+  it("returns null for prose", () => {
+    expect(parseModelJson("Here are some titles")).toBeNull();
+  });
+});
+
+describe("normalizeCandidatesFromJson", () => {
+  it("reads title objects with their style and explanation", () => {
+    expect(
+      normalizeCandidatesFromJson({
+        titles: [{ title: " React, Vue, or Svelte? ", style: "Comparison" }, { title: "Shorter Title", explanation: " Shortened. " }],
+      }),
+    ).toEqual([
+      { title: "React, Vue, or Svelte?", style: "comparison" },
+      { title: "Shorter Title", explanation: "Shortened." },
+    ]);
+  });
+
+  it("drops unknown styles", () => {
+    expect(normalizeCandidatesFromJson({ titles: [{ title: "A", style: "rant" }] })).toEqual([{ title: "A" }]);
+  });
+
+  it("splits the legacy comma-separated string", () => {
+    expect(normalizeTitlesFromJson({ titles: "One, Two ,Three" })).toEqual(["One", "Two", "Three"]);
+  });
+
+  it("accepts plain strings and the suggestions key", () => {
+    expect(normalizeTitlesFromJson({ suggestions: ["A", "B"] })).toEqual(["A", "B"]);
+  });
+
+  it("removes empty and duplicate titles", () => {
+    expect(normalizeTitlesFromJson({ titles: ["A", "", "A", { title: "B" }] })).toEqual(["A", "B"]);
+  });
+
+  it("returns nothing for a missing titles field", () => {
+    expect(normalizeCandidatesFromJson({ summary: {} })).toEqual([]);
+    expect(normalizeCandidatesFromJson(null)).toEqual([]);
+  });
+});
+
+describe("normalizeSummaryFromJson", () => {
+  it("trims the fields and fills missing ones", () => {
+    expect(normalizeSummaryFromJson({ summary: { topic: " TS ", angle: "fast" } })).toEqual({ topic: "TS", angle: "fast", audience: "", notes: "" });
+  });
+
+  it("returns null for an empty summary", () => {
+    expect(normalizeSummaryFromJson({ summary: { topic: "" } })).toBeNull();
+    expect(normalizeSummaryFromJson({ titles: [] })).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+import { parseStyle } from "./styles";
+import type { TitleCandidate, TitleSummary } from "./types";
+
+type UnknownRecord = Record<string, unknown>;
+
+export function stripCodeFences(s: string) {
+  return s
+    .replace(/^```json\n?/i, "")
+    .replace(/^```\n?/i, "")
+    .replace(/\n?```\s*$/i, "");
+}
+
+export function tryParseJson(s: string): unknown | null {
+  try {
+    return JSON.parse(s);
+  } catch {
+    return null;
+  }
+}
+
+/** Parses model text as JSON, tolerating markdown code fences. */
+export function parseModelJson(text: string): unknown | null {
+  return tryParseJson(stripCodeFences(text)) ?? tryParseJson(text);
+}
+
+export function titleFromItem(s: unknown): string {
+  if (typeof s === "string") return s.trim();
+  if (s && typeof s === "object") {
+    const r = s as UnknownRecord;
+    const val = r["title"] ?? r["text"] ?? r["suggestion"];
+    if (typeof val === "string") return val.trim();
+    const anyString = Object.values(r).find((v) => typeof v === "string");
+    if (typeof anyString === "string") return anyString.trim();
+    return String(s).trim();
+  }
+  return String(s).trim();
+}
+
+export function candidateFromItem(s: unknown): TitleCandidate {
+  const r = s && typeof s === "object" ? (s as UnknownRecord) : {};
+  const style = parseStyle(r["style"]);
+  const explanation = typeof r["explanation"] === "string" ? r["explanation"].trim() : "";
+  return { title: titleFromItem(s), ...(style ? { style } : {}), ...(explanation ? { explanation } : {}) };
+}
+
+/** Title candidates from the model's JSON, trimmed and deduplicated but not yet fitted to the length budget. */
+export function normalizeCandidatesFromJson(json: unknown): TitleCandidate[] {
+  const obj = (json && typeof json === "object" ? (json as UnknownRecord) : {}) as UnknownRecord;
+  const src = (obj["titles"] ?? obj["suggestions"]) as unknown;
+  let candidates: TitleCandidate[] = [];
+  if (Array.isArray(src)) {
+    candidates = src.map(candidateFromItem);
+  } else if (typeof src === "string") {
+    // Prompt v1 asked for one comma-separated string; some models still answer that way
+    candidates = src.split(",").map((s) => ({ title: s.trim() }));
+  } else if (src && typeof src === "object") {
+    const r = src as UnknownRecord;
+    const maybe = (r["title"] ?? r["text"] ?? r["suggestion"]) as unknown;
+    if (typeof maybe === "string") candidates = [candidateFromItem(src)];
+  }
+  const seen = new Set<string>();
+  return candidates.filter(({ title }) => title.length > 0 && !seen.has(title) && seen.add(title));
+}
+
+/** Just the title strings of `normalizeCandidatesFromJson`. */
+export function normalizeTitlesFromJson(json: unknown): string[] {
+  return normalizeCandidatesFromJson(json).map((c) => c.title);
+}
+
+export function normalizeSummaryFromJson(json: unknown): TitleSummary | null {
+  const obj = (json && typeof json === "object" ? (json as UnknownRecord) : {}) as UnknownRecord;
+  const src = obj["summary"];
+  if (!src || typeof src !== "object") return null;
+  const r = src as UnknownRecord;
+  const field = (key: keyof TitleSummary) => (typeof r[key] === "string" ? String(r[key]).trim() : "");
+  const summary: TitleSummary = {
+    topic: field("topic"),
+    angle: field("angle"),
+    audience: field("audience"),
+    notes: field("notes"),
+  };
+  return Object.values(summary).some(Boolean) ? summary : null;
+}
@@ -0,0 +1,147 @@
+import { exampleRules } from "./examples";
+import { sameTitle } from "./similarity";
+import { STYLE_GUIDES } from "./styles";
+import { voiceRules } from "./voice";
+import type { TitleConstraints, TitleInput } from "./types";
+
+export const DEFAULT_MAX_LENGTH = 45;
+/** Candidates generated for reranking when the request doesn't say. */
+export const DEFAULT_RERANK_CANDIDATES = 30;
+/** Titles kept after reranking when the request has no `count`. */
+export const DEFAULT_RERANK_COUNT = 10;
+export const DEFAULT_DIVERSITY = 0.3;
+
+/** Bump whenever the prompt or response schema changes; cached answers are keyed by it. */
+export const PROMPT_VERSION = 13;
+
+export function titleConstraints(input: TitleInput): TitleConstraints {
+  return {
+    count: input.count ?? null,
+    keywords: input.keywords ?? [],
+    maxLength: input.maxLength ?? DEFAULT_MAX_LENGTH,
+    overLength: input.overLength ?? "trim",
+    // Always ask for at least as many candidates as will be kept
+    rerankCandidates: input.rerank ? Math.max(input.candidates ?? DEFAULT_RERANK_CANDIDATES, input.count ?? DEFAULT_RERANK_COUNT) : null,
+    diversity: input.diversity ?? DEFAULT_DIVERSITY,
+    embeddings: input.similarity === "embeddings",
+    styles: input.styles ?? [],
+    voice: input.voice ?? null,
+    examples: input.examples ?? (input.channelId ? [] : null),
+    // The anchor may also be among the seen titles; excluding it would drop the variants asked for
+    exclude: (input.exclude ?? []).filter((title) => !input.like || !sameTitle(title, input.like)),
+    like: input.like ?? null,
+  };
+}
+
+function countRule({ count, rerankCandidates }: TitleConstraints) {
+  if (rerankCandidates !== null) return `- Provide exactly ${rerankCandidates} options, varied in angle and wording.`;
+  if (count === null) return "- Provide 8-12 options where possible.";
+  return count === 1 ? "- Provide exactly 1 option." : `- Provide exactly ${count} options.`;
+}
+
+export function styleRules({ styles }: TitleConstraints): string[] {
+  if (!styles.length) return [];
+  return [
+    `- Write every title in one of these styles and set its "style" to that name, spreading titles evenly across them: ${styles.join(", ")}.`,
+    ...styles.map((s) => `  - ${STYLE_GUIDES[s].prompt}`),
+  ];
+}
+
+export function buildSystemInstruction(constraints: TitleConstraints) {
+  const styled = constraints.styles.length > 0;
+  const { voice } = constraints;
+  return [
+    "You are an assistant that suggests YouTube video titles.",
+    "Constraints:",
+    "- Output MUST be a single JSON object.",
+    voice?.tone.length ? "- Keep titles concise and catchy." : "- Keep sentences short and formal with a casual feel (concise, catchy).",
+    "- Focus on SEO-friendly titles, avoid clickbait hype.",
+    "- Return only valid JSON. Do not include markdown code fences.",
+    "- Use the schema strictly.",
+    "JSON schema:",
+    '{',
+    '  "summary": {',
+    '    "topic": string,',
+    '    "angle": string,',
+    '    "audience": string,',
+    '    "notes": string',
+    '  },',
+    '  "titles": [',
+    styled ? '    { "title": string, "style": string }' : '    { "title": string }',
+    '  ]',
+    '}',
+    "Rules:",
+    "- titles must be an array of objects, one object per video title.",
+    countRule(constraints),
+    ...styleRules(constraints),
+    ...(voice ? voiceRules(voice) : []),
+    ...exampleRules(constraints.examples ?? []),
+    `- Each title MUST be very short: strictly <= ${constraints.maxLength} characters.`,
+    voice && voice.emoji !== "none"
+      ? "- Prefer crisp wording, drop filler words, avoid excessive punctuation."
+      : "- Prefer crisp wording, drop filler words, avoid emojis and excessive punctuation.",
+    "- Respond with JSON only. No preface, no prose.",
+    "- Each title should directly answer the provided video description.",
+    "- Each title string is complete on its own and may contain commas.",
+    styled
+      ? 'Example: "titles": [{ "title": "React, Vue, or Svelte?", "style": "comparison" }, { "title": "Title 2", "style": "..." }]'
+      : 'Example: "titles": [{ "title": "React, Vue, or Svelte?" }, { "title": "Title 2" }]',
+  ].join("\n");
+}
+
+export function buildUserPrompt(input: TitleInput, constraints: TitleConstraints) {
+  const lines: string[] = [];
+  if (input.description) lines.push(`Description: ${input.description}`);
+  if (input.keywords?.length) lines.push(`Keywords: ${input.keywords.join(", ")}`);
+  if (input.niche) lines.push(`Niche: ${input.niche}`);
+  if (input.language) lines.push(`Language: ${input.language}`);
+  if (input.summary) {
+    const { topic, angle, audience, notes } = input.summary;
+    lines.push("Confirmed reading of the brief (write for this, over your own reading of the description):");
+    if (topic) lines.push(`- Topic: ${topic}`);
+    if (angle) lines.push(`- Angle: ${angle}`);
+    if (audience) lines.push(`- Audience: ${audience}`);
+    if (notes) lines.push(`- Notes: ${notes}`);
+  }
+  if (input.like) {
+    lines.push(`More like this title (keep its angle and structure, change the wording): ${input.like}`);
+  }
+  if (constraints.exclude.length) {
+    lines.push("Already seen; do not repeat or paraphrase any of these titles:");
+    for (const title of constraints.exclude) lines.push(`- ${title}`);
+  }
+  lines.push("Respond in JSON only, no extra text.");
+  const wanted = constraints.rerankCandidates ?? constraints.count;
+  if (wanted !== null) lines.push(`Return exactly ${wanted} titles.`);
+  lines.push(`All titles must be <= ${constraints.maxLength} characters each.`);
+  return lines.join("\n");
+}
+
+export const RESPONSE_SCHEMA = {
+  type: "object",
+  properties: {
+    summary: {
+      type: "object",
+      properties: {
+        topic: { type: "string" },
+        angle: { type: "string" },
+        audience: { type: "string" },
+        notes: { type: "string" },
+      },
+      required: ["topic", "angle", "audience", "notes"],
+    },
+    titles: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          title: { type: "string" },
+          // Only asked for when the request has `styles`
+          style: { type: "string" },
+        },
+        required: ["title"],
+      },
+    },
+  },
+  required: ["titles"],
+};
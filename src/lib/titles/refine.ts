@@ -0,0 +1,140 @@
+import { z } from "zod";
+import { resolveProvider } from "@/lib/providers";
+import type { ProviderId } from "@/lib/providers";
+import { parseWithSchema } from "@/lib/validation";
+import { TitleGenerationError } from "./errors";
+import { fitTitles } from "./generate";
+import { normalizeCandidatesFromJson, parseModelJson } from "./parse";
+import { titleConstraints } from "./prompt";
+import { titleRequestSchema } from "./schema";
+import { scoreItem } from "./score";
+import { voiceRules, withVoice } from "./voice";
+import type { GenerateTitlesOptions, TitleConstraints, TitleInput, TitleItem } from "./types";
+
+export const REFINE_TURNS_MAX = 20;
+export const REFINE_TEXT_MAX_LENGTH = 1000;
+export const REFINE_VARIANTS_DEFAULT = 5;
+export const REFINE_VARIANTS_MAX = 10;
+
+/** One step of a refinement conversation; assistant turns carry the variants they returned. */
+export type RefineTurn = { role: "user"; text: string } | { role: "assistant"; reply: string; titles: string[] };
+
+export type TitleRefineResult = {
+  /** One sentence from the model on what it changed. */
+  reply: string;
+  items: TitleItem[];
+  meta: { model: string; provider: ProviderId; generatedAt: string };
+};
+
+const turnSchema = z.discriminatedUnion("role", [
+  z.object({ role: z.literal("user"), text: z.string().trim().min(1, "text must not be empty").max(REFINE_TEXT_MAX_LENGTH) }),
+  z.object({
+    role: z.literal("assistant"),
+    reply: z.string().trim().max(REFINE_TEXT_MAX_LENGTH).default(""),
+    titles: z.array(z.string().trim().max(200)).max(REFINE_VARIANTS_MAX),
+  }),
+]);
+
+/** The brief the titles came from, the title being refined and the conversation so far. */
+export const titleRefineSchema = titleRequestSchema
+  .omit({ cache: true, includeSummary: true, exclude: true, like: true })
+  .extend({
+    title: z.string({ error: "title is required" }).trim().min(1, "title is required").max(200),
+    turns: z.array(turnSchema).min(1, "turns must not be empty").max(REFINE_TURNS_MAX),
+    variants: z.number().int().min(1).max(REFINE_VARIANTS_MAX).optional(),
+  })
+  .superRefine(({ turns }, ctx) => {
+    // Turns alternate user/assistant and end with the user's new instruction
+    turns.forEach((turn, index) => {
+      const expected = index % 2 === 0 ? "user" : "assistant";
+      if (turn.role !== expected) ctx.addIssue({ code: "custom", path: ["turns", index, "role"], message: `expected ${expected === "user" ? "a user" : "an assistant"} turn` });
+    });
+    if (turns.length % 2 === 0) ctx.addIssue({ code: "custom", path: ["turns"], message: "the last turn must be from the user" });
+  });
+
+export type TitleRefineRequest = {
+  input: TitleInput;
+  title: string;
+  turns: RefineTurn[];
+  variants: number;
+};
+
+/** Validates a refinement body, throwing `RequestValidationError` with field-level issues. */
+export function parseTitleRefine(body: unknown): { request: TitleRefineRequest; options: GenerateTitlesOptions } {
+  const { provider, model, title, turns, variants, ...input } = parseWithSchema(titleRefineSchema, body);
+  return { request: { input, title, turns, variants: variants ?? REFINE_VARIANTS_DEFAULT }, options: { provider, model } };
+}
+
+const REFINE_SCHEMA = {
+  type: "object",
+  properties: {
+    reply: { type: "string" },
+    titles: { type: "array", items: { type: "object", properties: { title: { type: "string" } }, required: ["title"] } },
+  },
+  required: ["reply", "titles"],
+};
+
+function briefLines(input: TitleInput): string[] {
+  const lines: string[] = [];
+  if (input.description) lines.push(`Description: ${input.description}`);
+  if (input.keywords?.length) lines.push(`Keywords: ${input.keywords.join(", ")}`);
+  if (input.niche) lines.push(`Niche: ${input.niche}`);
+  if (input.language) lines.push(`Language: ${input.language}`);
+  if (input.summary?.angle) lines.push(`Angle: ${input.summary.angle}`);
+  if (input.summary?.audience) lines.push(`Audience: ${input.summary.audience}`);
+  return lines;
+}
+
+function buildRefineInstruction(request: TitleRefineRequest, constraints: TitleConstraints) {
+  return [
+    "You help a YouTube creator refine one video title through a conversation.",
+    "The video:",
+    ...briefLines(request.input),
+    `Title being refined: "${request.title}"`,
+    "Rules:",
+    "- Apply the creator's latest instruction to the title, keeping earlier instructions unless it contradicts them.",
+    `- Return exactly ${request.variants} variants, varied in wording.`,
+    `- Each title MUST be very short: strictly <= ${constraints.maxLength} characters.`,
+    "- Keep what the video is about and its main keyword; avoid clickbait hype.",
+    ...(constraints.voice ? voiceRules(constraints.voice) : []),
+    '- "reply" is one short sentence on what you changed.',
+    '- Respond with JSON only: {"reply": string, "titles": [{"title": string}]}. No markdown code fences.',
+  ].join("\n");
+}
+
+/**
+ * One turn of the refinement chat: the conversation goes to the model as
+ * multi-turn messages and the variants it returns are fitted, voiced and
+ * scored like generated titles. The title being refined is never returned.
+ */
+export async function refineTitle(request: TitleRefineRequest, options: GenerateTitlesOptions = {}): Promise<TitleRefineResult> {
+  const { provider, model } = resolveProvider({ provider: options.provider, model: options.model });
+  const input = await withVoice(request.input);
+  const constraints: TitleConstraints = { ...titleConstraints(input), count: request.variants, styles: [] };
+  const generation = await provider.generate({
+    model,
+    system: buildRefineInstruction({ ...request, input }, constraints),
+    messages: request.turns.map((turn) =>
+      turn.role === "user"
+        ? { role: "user", text: turn.text }
+        : { role: "assistant", text: JSON.stringify({ reply: turn.reply, titles: turn.titles.map((title) => ({ title })) }) },
+    ),
+    json: true,
+    responseSchema: REFINE_SCHEMA,
+    temperature: 0.8,
+    maxOutputTokens: 1024,
+    signal: options.signal,
+  });
+
+  const parsed = parseModelJson(generation.text) as { reply?: unknown } | null;
+  if (!parsed) throw new TitleGenerationError("Model returned non-JSON output", generation.text);
+  const candidates = normalizeCandidatesFromJson(parsed).filter((c) => c.title !== request.title);
+  if (!candidates.length) throw new TitleGenerationError("No titles produced", parsed);
+
+  const fitted = await fitTitles(candidates, constraints, { provider, model, signal: options.signal });
+  return {
+    reply: typeof parsed.reply === "string" ? parsed.reply.trim() : "",
+    items: fitted.filter((f) => f.title !== request.title).map((f) => scoreItem(f, constraints)),
+    meta: { model: generation.model, provider: generation.provider, generatedAt: new Date().toISOString() },
+  };
+}
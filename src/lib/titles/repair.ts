@@ -0,0 +1,54 @@
+import { parseModelJson } from "./parse";
+import type { ModelContext } from "./types";
+
+const REPAIR_SCHEMA = {
+  type: "object",
+  properties: {
+    titles: { type: "array", items: { type: "string" } },
+  },
+  required: ["titles"],
+};
+
+function buildRepairInstruction(maxLength: number) {
+  return [
+    "You shorten YouTube video titles that are over their character budget.",
+    "Rules:",
+    `- Rewrite each title to at most ${maxLength} characters, counting spaces.`,
+    "- Keep the meaning and the most important keyword, preferably near the start.",
+    "- Drop filler words first; never end on a cut-off word, article or preposition.",
+    "- Keep the same language as the original.",
+    '- Respond with JSON only: {"titles": string[]}, one entry per input title, in the same order.',
+  ].join("\n");
+}
+
+/**
+ * One targeted "shorten these" call for the titles over budget. Returns the
+ * rewrite for each input (same order), or `null` where the model gave nothing
+ * usable; callers fall back to word-boundary trimming.
+ */
+export async function rewriteOverLength(titles: string[], maxLength: number, ctx: ModelContext): Promise<(string | null)[]> {
+  if (!titles.length) return [];
+  try {
+    const generation = await ctx.provider.generate({
+      model: ctx.model,
+      system: buildRepairInstruction(maxLength),
+      messages: [{ role: "user", text: titles.map((t, i) => `${i + 1}. ${t}`).join("\n") }],
+      json: true,
+      responseSchema: REPAIR_SCHEMA,
+      temperature: 0.3,
+      maxOutputTokens: 1024,
+      signal: ctx.signal,
+    });
+    const parsed = parseModelJson(generation.text) as { titles?: unknown } | null;
+    const rewrites = Array.isArray(parsed?.titles) ? parsed.titles : [];
+    return titles.map((_, i) => {
+      const candidate = rewrites[i];
+      if (typeof candidate !== "string") return null;
+      const trimmed = candidate.trim();
+      return trimmed && trimmed.length <= maxLength ? trimmed : null;
+    });
+  } catch (err) {
+    console.error("Title repair pass failed, falling back to trimming", err);
+    return titles.map(() => null);
+  }
+}
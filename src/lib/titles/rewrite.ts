@@ -0,0 +1,134 @@
+import { z } from "zod";
+import { resolveProvider } from "@/lib/providers";
+import type { ProviderId } from "@/lib/providers";
+import { parseWithSchema } from "@/lib/validation";
+import { TitleGenerationError } from "./errors";
+import { fitTitles } from "./generate";
+import { normalizeCandidatesFromJson, parseModelJson } from "./parse";
+import { styleRules, titleConstraints } from "./prompt";
+import { DESCRIPTION_MAX_LENGTH, TITLE_MAX_LENGTH, titleRequestSchema } from "./schema";
+import { scoreItem } from "./score";
+import { voiceRules, withVoice } from "./voice";
+import type { GenerateTitlesOptions, TitleConstraints, TitleInput, TitleItem } from "./types";
+
+/** Variants returned when the request has no `count`. */
+export const REWRITE_VARIANTS_DEFAULT = 5;
+
+export type TitleRewriteResult = {
+  /** The draft title, scored with the same rules as the variants. */
+  original: TitleItem;
+  /** Improved variants, each with an `explanation` of what changed. */
+  items: TitleItem[];
+  meta: { count: number; maxLength: number; model: string; provider: ProviderId; generatedAt: string };
+};
+
+/** A draft title plus the optional brief and the length, style and voice rules of a title request. */
+export const titleRewriteSchema = titleRequestSchema
+  .pick({ keywords: true, niche: true, language: true, count: true, maxLength: true, overLength: true, styles: true, profileId: true, provider: true, model: true })
+  .extend({
+    title: z.string({ error: "title is required" }).trim().min(1, "title is required").max(TITLE_MAX_LENGTH),
+    description: z.string().trim().max(DESCRIPTION_MAX_LENGTH).optional().transform((v) => v || undefined),
+  });
+
+export type TitleRewriteRequest = {
+  input: TitleInput;
+  title: string;
+};
+
+/** Validates a rewrite body, throwing `RequestValidationError` with field-level issues. */
+export function parseTitleRewrite(body: unknown): { request: TitleRewriteRequest; options: GenerateTitlesOptions } {
+  const { provider, model, title, ...input } = parseWithSchema(titleRewriteSchema, body);
+  return { request: { input, title }, options: { provider, model } };
+}
+
+const REWRITE_SCHEMA = {
+  type: "object",
+  properties: {
+    titles: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          title: { type: "string" },
+          // Only asked for when the request has `styles`
+          style: { type: "string" },
+          explanation: { type: "string" },
+        },
+        required: ["title", "explanation"],
+      },
+    },
+  },
+  required: ["titles"],
+};
+
+function buildRewriteInstruction(constraints: TitleConstraints) {
+  const { voice } = constraints;
+  const shape = constraints.styles.length
+    ? '{"titles": [{"title": string, "style": string, "explanation": string}]}'
+    : '{"titles": [{"title": string, "explanation": string}]}';
+  return [
+    "You improve a YouTube creator's draft video title.",
+    "Rules:",
+    `- Return exactly ${constraints.count} improved variants of the draft, varied in wording.`,
+    "- Keep what the video is about. Make each variant clearer, more specific or easier to find in search than the draft.",
+    "- Put the main keyword near the start when there is one.",
+    `- Each title MUST be very short: strictly <= ${constraints.maxLength} characters.`,
+    ...styleRules(constraints),
+    ...(voice ? voiceRules(voice) : []),
+    voice && voice.emoji !== "none" ? "- Avoid clickbait hype and excessive punctuation." : "- Avoid clickbait hype, emojis and excessive punctuation.",
+    '- "explanation" is one short sentence on what changed, e.g. "Moved the keyword forward", "Shortened" or "Made it more specific".',
+    `- Respond with JSON only: ${shape}. No markdown code fences.`,
+  ].join("\n");
+}
+
+function buildRewritePrompt(request: TitleRewriteRequest) {
+  const { input } = request;
+  const lines = [`Draft title: ${request.title}`];
+  if (input.description) lines.push(`Description: ${input.description}`);
+  if (input.keywords?.length) lines.push(`Keywords: ${input.keywords.join(", ")}`);
+  if (input.niche) lines.push(`Niche: ${input.niche}`);
+  if (input.language) lines.push(`Language: ${input.language}`);
+  lines.push("Respond in JSON only, no extra text.");
+  return lines.join("\n");
+}
+
+/**
+ * Improves an existing title: the model returns variants with a one-line
+ * explanation each, which are fitted, voiced, style-checked and scored like
+ * generated titles. Variants identical to the draft are dropped.
+ */
+export async function rewriteTitle(request: TitleRewriteRequest, options: GenerateTitlesOptions = {}): Promise<TitleRewriteResult> {
+  const { provider, model } = resolveProvider({ provider: options.provider, model: options.model });
+  const input = await withVoice(request.input);
+  const constraints: TitleConstraints = { ...titleConstraints(input), count: input.count ?? REWRITE_VARIANTS_DEFAULT };
+  const generation = await provider.generate({
+    model,
+    system: buildRewriteInstruction(constraints),
+    messages: [{ role: "user", text: buildRewritePrompt(request) }],
+    json: true,
+    responseSchema: REWRITE_SCHEMA,
+    temperature: 0.7,
+    maxOutputTokens: 2048,
+    signal: options.signal,
+  });
+
+  const parsed = parseModelJson(generation.text);
+  if (!parsed) throw new TitleGenerationError("Model returned non-JSON output", generation.text);
+  const draft = request.title.toLowerCase();
+  const candidates = normalizeCandidatesFromJson(parsed).filter((c) => c.title.toLowerCase() !== draft);
+  if (!candidates.length) throw new TitleGenerationError("No titles produced", parsed);
+
+  const fitted = await fitTitles(candidates, constraints, { provider, model, signal: options.signal });
+  const items = fitted.filter((f) => f.title.toLowerCase() !== draft).map((f) => scoreItem(f, constraints));
+  return {
+    original: scoreItem({ title: request.title, status: "original" }, constraints),
+    items,
+    meta: {
+      count: items.length,
+      maxLength: constraints.maxLength,
+      model: generation.model,
+      provider: generation.provider,
+      generatedAt: new Date().toISOString(),
+    },
+  };
+}
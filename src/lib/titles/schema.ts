@@ -0,0 +1,141 @@
+import { z } from "zod";
+import { PROVIDER_IDS } from "@/lib/providers";
+import type { ProviderId } from "@/lib/providers";
+import { parseWithSchema } from "@/lib/validation";
+import { TITLE_STYLES } from "./styles";
+import type { GenerateTitlesOptions, TitleInput, TitleItem, TitleStyle } from "./types";
+
+export const DESCRIPTION_MAX_LENGTH = 5000;
+export const KEYWORDS_MAX = 20;
+export const KEYWORD_MAX_LENGTH = 60;
+export const NICHE_MAX_LENGTH = 100;
+export const COUNT_MIN = 1;
+export const COUNT_MAX = 25;
+/** YouTube rejects titles over 100 characters; below 15 nothing useful fits. */
+export const MAX_LENGTH_MIN = 15;
+export const MAX_LENGTH_MAX = 100;
+export const CANDIDATES_MIN = 5;
+export const CANDIDATES_MAX = 50;
+export const SUMMARY_FIELD_MAX_LENGTH = 500;
+export const SUMMARY_NOTES_MAX_LENGTH = 2000;
+export const EXCLUDE_MAX = 100;
+export const TITLE_MAX_LENGTH = 200;
+
+/** Language names accepted besides BCP-47 tags (matched case-insensitively). */
+export const LANGUAGE_NAMES = [
+  "Arabic", "Bengali", "Chinese", "Dutch", "English", "French", "German", "Hindi", "Indonesian",
+  "Italian", "Japanese", "Korean", "Malay", "Persian", "Polish", "Portuguese", "Punjabi", "Russian",
+  "Spanish", "Swahili", "Tamil", "Telugu", "Thai", "Turkish", "Ukrainian", "Urdu", "Vietnamese",
+];
+
+function isBcp47(tag: string): boolean {
+  if (!/^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(tag)) return false;
+  try {
+    return Intl.getCanonicalLocales(tag).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+export function isSupportedLanguage(value: string): boolean {
+  const lower = value.toLowerCase();
+  return LANGUAGE_NAMES.some((name) => name.toLowerCase() === lower) || isBcp47(value);
+}
+
+const optionalText = (max: number) =>
+  z.string().trim().max(max).optional().transform((v) => v || undefined);
+
+/** The model's reading of a brief; also accepted in requests as a correction. */
+export const titleSummarySchema = z
+  .object({
+    topic: z.string().trim().max(SUMMARY_FIELD_MAX_LENGTH).default(""),
+    angle: z.string().trim().max(SUMMARY_FIELD_MAX_LENGTH).default(""),
+    audience: z.string().trim().max(SUMMARY_FIELD_MAX_LENGTH).default(""),
+    notes: z.string().trim().max(SUMMARY_NOTES_MAX_LENGTH).default(""),
+  })
+  .refine((summary) => Object.values(summary).some(Boolean), "summary must have at least one field");
+
+const score = z.number().min(0).max(100);
+
+/** A returned title with its scores, as clients hold it (e.g. to save it to history). Unknown keys are dropped. */
+export const titleItemSchema = z.object({
+  title: z.string().trim().min(1).max(TITLE_MAX_LENGTH),
+  status: z.enum(["original", "trimmed", "rewritten"]),
+  style: z.enum(TITLE_STYLES as [TitleStyle, ...TitleStyle[]]).optional(),
+  explanation: z.string().max(SUMMARY_FIELD_MAX_LENGTH).optional(),
+  scores: z.object({
+    keywordCoverage: score.nullable(),
+    lengthFit: score,
+    frontLoading: score.nullable(),
+    readability: score,
+    clickbaitPenalty: score,
+    overall: score,
+  }),
+  judge: z.object({ score: z.number().min(1).max(10), rationale: z.string().max(SUMMARY_FIELD_MAX_LENGTH) }).optional(),
+  duplicates: z.array(z.string().max(TITLE_MAX_LENGTH)).max(EXCLUDE_MAX).optional(),
+}) satisfies z.ZodType<TitleItem>;
+
+export const titleRequestSchema = z.object({
+  description: z
+    .string({ error: (issue) => (issue.input === undefined ? "description is required" : "description must be a string") })
+    .trim()
+    .min(1, "description is required")
+    .max(DESCRIPTION_MAX_LENGTH),
+  keywords: z
+    .array(z.string().trim().min(1, "keywords must not be empty").max(KEYWORD_MAX_LENGTH))
+    .max(KEYWORDS_MAX)
+    .optional(),
+  niche: optionalText(NICHE_MAX_LENGTH),
+  language: z
+    .string()
+    .trim()
+    .max(35)
+    .refine((v) => !v || isSupportedLanguage(v), "language must be a supported language name or a BCP-47 code")
+    .optional()
+    .transform((v) => v || undefined),
+  count: z.number().int().min(COUNT_MIN).max(COUNT_MAX).optional(),
+  maxLength: z.number().int().min(MAX_LENGTH_MIN).max(MAX_LENGTH_MAX).optional(),
+  overLength: z.enum(["trim", "rewrite"]).optional(),
+  rerank: z.boolean().optional(),
+  candidates: z.number().int().min(CANDIDATES_MIN).max(CANDIDATES_MAX).optional(),
+  diversity: z.number().min(0).max(1).optional(),
+  similarity: z.enum(["lexical", "embeddings"]).optional(),
+  styles: z
+    .array(z.enum(TITLE_STYLES as [TitleStyle, ...TitleStyle[]]))
+    .min(1)
+    .optional()
+    .transform((v) => (v ? Array.from(new Set(v)) : undefined)),
+  profileId: optionalText(100),
+  channelId: optionalText(64),
+  summary: titleSummarySchema.optional(),
+  exclude: z
+    .array(z.string().trim().min(1, "exclude must not contain empty titles").max(TITLE_MAX_LENGTH))
+    .max(EXCLUDE_MAX)
+    .optional()
+    .transform((v) => (v?.length ? Array.from(new Set(v)) : undefined)),
+  like: optionalText(TITLE_MAX_LENGTH),
+  includeSummary: z.boolean().optional(),
+  provider: z.enum(PROVIDER_IDS as [ProviderId, ...ProviderId[]]).optional(),
+  model: optionalText(100),
+  cache: z.enum(["default", "bypass"]).optional(),
+});
+
+export type TitleRequest = z.infer<typeof titleRequestSchema>;
+
+/**
+ * Validates a title request body, throwing `RequestValidationError` with
+ * field-level issues. `includeSummary` only shapes public API responses, so
+ * it is returned apart from the brief.
+ */
+export function parseTitleRequest(body: unknown): { input: TitleInput; options: GenerateTitlesOptions; includeSummary: boolean } {
+  const { provider, model, cache, includeSummary, ...input } = parseWithSchema(titleRequestSchema, body);
+  return { input, options: { provider, model, cache }, includeSummary: includeSummary ?? false };
+}
+
+/**
+ * Drops the `provider` and `model` overrides. The app's `/api/suggest*` routes
+ * take no API key, so they always run on the server's configured model.
+ */
+export function withoutModelOverrides<T extends GenerateTitlesOptions>(options: T): T {
+  return { ...options, provider: undefined, model: undefined };
+}
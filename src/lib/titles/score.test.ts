@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { clickbaitFlags, containsKeyword, scoreTitle, tokenize } from "./score";
+
+describe("tokenize", () => {
+  it("lowercases and folds simple plurals", () => {
+    expect(tokenize("React Hooks, Explained")).toEqual(["react", "hook", "explained"]);
+  });
+});
+
+describe("containsKeyword", () => {
+  it("finds multi-word keywords by word index", () => {
+    expect(containsKeyword(tokenize("Why React Hooks Matter"), "react hook")).toBe(1);
+    expect(containsKeyword(tokenize("Why React Matters"), "hooks")).toBe(-1);
+  });
+});
+
+describe("scoreTitle", () => {
+  const constraints = { keywords: ["typescript", "generics"], maxLength: 45 };
+
+  it("is deterministic", () => {
+    expect(scoreTitle("TypeScript Generics Explained", constraints)).toEqual(scoreTitle("TypeScript Generics Explained", constraints));
+  });
+
+  it("leaves keyword components out without keywords", () => {
+    const scores = scoreTitle("TypeScript Generics Explained", { keywords: [], maxLength: 45 });
+    expect(scores.keywordCoverage).toBeNull();
+    expect(scores.frontLoading).toBeNull();
+  });
+
+  it("scores keyword coverage and front-loading", () => {
+    const scores = scoreTitle("TypeScript Generics Explained", constraints);
+    expect(scores.keywordCoverage).toBe(100);
+    expect(scores.frontLoading).toBe(100);
+    expect(scoreTitle("Explained: TypeScript", constraints).keywordCoverage).toBe(50);
+  });
+
+  it("gives no length credit over budget", () => {
+    expect(scoreTitle("A".repeat(10) + " " + "B".repeat(40), constraints).lengthFit).toBe(0);
+  });
+
+  it("penalizes clickbait", () => {
+    const calm = scoreTitle("TypeScript Generics Explained", constraints);
+    const hype = scoreTitle("INSANE TypeScript Generics Secret!!", constraints);
+    expect(hype.clickbaitPenalty).toBeGreaterThan(0);
+    expect(hype.overall).toBeLessThan(calm.overall);
+  });
+});
+
+describe("clickbaitFlags", () => {
+  it("lists what triggered the penalty", () => {
+    expect(clickbaitFlags("SHOCKING secret revealed!! 😱")).toEqual({ hype: ["shocking", "secret"], shouting: ["SHOCKING"], exclamations: 1, emoji: true });
+  });
+
+  it("does not flag acronyms or words containing hype terms", () => {
+    expect(clickbaitFlags("Epicurean cooking with the NASA API")).toEqual({ hype: [], shouting: [], exclamations: 0, emoji: false });
+  });
+});
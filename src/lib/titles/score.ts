@@ -0,0 +1,120 @@
+import type { FittedTitle, TitleConstraints, TitleItem, TitleScores } from "./types";
+
+/** Hype phrases the system instruction tells the model to avoid. Matched on whole words, case-insensitively. */
+const HYPE_TERMS = [
+  "shocking", "shocked", "insane", "crazy", "unbelievable", "you won't believe", "mind-blowing", "mind blowing",
+  "jaw-dropping", "epic", "ultimate", "secret", "secrets", "exposed", "gone wrong", "must see", "must-see",
+  "destroyed", "destroys", "life-changing", "life changing", "never seen", "what happens next", "the truth about",
+  "nobody tells you", "will blow your mind", "omg", "wtf", "100%", "guaranteed", "instantly",
+];
+
+const EMOJI = /\p{Extended_Pictographic}/u;
+
+/** Weights of the positive components in `overall`; components that don't apply (no keywords) are left out. */
+const WEIGHTS = { keywordCoverage: 0.3, lengthFit: 0.2, frontLoading: 0.15, readability: 0.35 } as const;
+/** Share of the hype penalty subtracted from `overall`. */
+const PENALTY_WEIGHT = 0.5;
+
+const clamp = (n: number) => Math.round(Math.min(100, Math.max(0, n)));
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Lowercased word tokens with a light plural fold, so "hook" matches "Hooks". */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu) ?? []).map((w) => (w.length > 3 && w.endsWith("s") && !w.endsWith("ss") ? w.slice(0, -1) : w));
+}
+
+/** Word index where the keyword's words start in the title, or -1. */
+export function containsKeyword(titleTokens: string[], keyword: string): number {
+  const words = tokenize(keyword);
+  if (!words.length) return -1;
+  for (let i = 0; i + words.length <= titleTokens.length; i++) {
+    if (words.every((w, j) => titleTokens[i + j] === w)) return i;
+  }
+  return -1;
+}
+
+function keywordCoverage(tokens: string[], keywords: string[]): number | null {
+  if (!keywords.length) return null;
+  return clamp((keywords.filter((k) => containsKeyword(tokens, k) !== -1).length / keywords.length) * 100);
+}
+
+/** Full marks from 60% of the budget up to the budget; shorter titles waste space people would see. */
+function lengthFit(length: number, maxLength: number): number {
+  if (length > maxLength) return 0;
+  const ideal = maxLength * 0.6;
+  return clamp(length >= ideal ? 100 : (length / ideal) * 100);
+}
+
+/** How early the first keyword appears, by word position: first word 100, last word near 0, missing 0. */
+function frontLoading(tokens: string[], keywords: string[]): number | null {
+  if (!keywords.length) return null;
+  const position = containsKeyword(tokens, keywords[0]);
+  if (position === -1 || !tokens.length) return 0;
+  return clamp(100 - (position / tokens.length) * 100);
+}
+
+/** Short common words read fastest: penalizes long average word length, long titles and symbol clutter. */
+function readability(title: string, tokens: string[]): number {
+  if (!tokens.length) return 0;
+  const avgWordLength = tokens.reduce((sum, w) => sum + w.length, 0) / tokens.length;
+  const symbols = (title.match(/[^\p{L}\p{N}\s'’"“”,.?:-]/gu) ?? []).length;
+  return clamp(100 - Math.max(0, avgWordLength - 5) * 15 - Math.max(0, tokens.length - 10) * 6 - symbols * 8);
+}
+
+export type ClickbaitFlags = {
+  /** Hype phrases found, as listed in `HYPE_TERMS`. */
+  hype: string[];
+  /** Shouting, not acronyms: all-caps words of 5+ letters. */
+  shouting: string[];
+  /** "!" marks and runs like "?!" or "??". */
+  exclamations: number;
+  emoji: boolean;
+};
+
+/** What makes a title read as clickbait; `scores.clickbaitPenalty` is computed from these. */
+export function clickbaitFlags(title: string): ClickbaitFlags {
+  const lower = title.toLowerCase();
+  return {
+    hype: HYPE_TERMS.filter((term) => new RegExp(`(^|[^\\p{L}])${escapeRegExp(term)}($|[^\\p{L}])`, "u").test(lower)),
+    shouting: title.match(/\b\p{Lu}{5,}\b/gu) ?? [],
+    exclamations: (title.match(/[!?]{2,}|!/g) ?? []).length,
+    emoji: EMOJI.test(title),
+  };
+}
+
+function clickbaitPenalty(title: string): number {
+  const { hype, shouting, exclamations, emoji } = clickbaitFlags(title);
+  return clamp(hype.length * 30 + shouting.length * 20 + exclamations * 15 + (emoji ? 15 : 0));
+}
+
+/**
+ * Deterministic 0-100 scores for one title against the brief. The same title
+ * and brief always score the same, so the numbers can back an editor's pick.
+ */
+export function scoreTitle(title: string, constraints: Pick<TitleConstraints, "keywords" | "maxLength">): TitleScores {
+  const tokens = tokenize(title);
+  const scores = {
+    keywordCoverage: keywordCoverage(tokens, constraints.keywords),
+    lengthFit: lengthFit(title.length, constraints.maxLength),
+    frontLoading: frontLoading(tokens, constraints.keywords),
+    readability: readability(title, tokens),
+  };
+  const penalty = clickbaitPenalty(title);
+
+  let total = 0;
+  let weight = 0;
+  for (const [name, w] of Object.entries(WEIGHTS) as [keyof typeof WEIGHTS, number][]) {
+    const value = scores[name];
+    if (value === null) continue;
+    total += value * w;
+    weight += w;
+  }
+  return { ...scores, clickbaitPenalty: penalty, overall: clamp(total / weight - penalty * PENALTY_WEIGHT) };
+}
+
+export function scoreItem(fitted: FittedTitle, constraints: Pick<TitleConstraints, "keywords" | "maxLength">): TitleItem {
+  return { ...fitted, scores: scoreTitle(fitted.title, constraints) };
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { fitTitle, shortenTitle } from "./shorten";
+
+describe("shortenTitle", () => {
+  it("keeps titles that fit", () => {
+    expect(shortenTitle("  Learn TypeScript Fast  ", 45)).toBe("Learn TypeScript Fast");
+  });
+
+  it("cuts at a word boundary instead of mid-word", () => {
+    expect(shortenTitle("Learn TypeScript Generics Today", 20)).toBe("Learn TypeScript");
+  });
+
+  it("drops dangling stopwords and trailing punctuation", () => {
+    expect(shortenTitle("React Hooks for the Absolute Beginner", 20)).toBe("React Hooks");
+    expect(shortenTitle("TypeScript Tips, Tricks and More", 21)).toBe("TypeScript Tips");
+  });
+
+  it("drops an unclosed bracket group", () => {
+    expect(shortenTitle("React Hooks (Part Two of Three)", 20)).toBe("React Hooks");
+  });
+
+  it("cuts a single over-long word mid-word", () => {
+    expect(shortenTitle("Supercalifragilistic", 10)).toBe("Supercalif");
+  });
+
+  it("keeps the closing question mark", () => {
+    expect(shortenTitle("Is TypeScript Worth Learning in 2025?", 30)).toBe("Is TypeScript Worth Learning?");
+  });
+
+  it("never exceeds the budget", () => {
+    const title = "The Complete Guide to Building Fast APIs with Node.js and Postgres";
+    for (const max of [15, 25, 35, 45]) expect(shortenTitle(title, max).length).toBeLessThanOrEqual(max);
+  });
+});
+
+describe("fitTitle", () => {
+  it("marks titles that fit as original", () => {
+    expect(fitTitle("Learn TypeScript", 45)).toEqual({ title: "Learn TypeScript", status: "original" });
+  });
+
+  it("marks shortened titles as trimmed", () => {
+    expect(fitTitle("Learn TypeScript Generics Today", 20)).toEqual({ title: "Learn TypeScript", status: "trimmed" });
+  });
+});
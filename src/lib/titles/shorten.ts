@@ -0,0 +1,62 @@
+import type { FittedTitle } from "./types";
+
+/** Words that read as cut off when a title ends on them. */
+const DANGLING_WORDS = new Set([
+  "a", "an", "the", "and", "or", "but", "nor", "of", "to", "for", "in", "on", "at", "by", "with", "from",
+  "into", "onto", "about", "as", "vs", "vs.", "via", "your", "my", "our", "their", "its", "this", "that",
+  "these", "those", "how", "why", "what", "when", "where", "who", "is", "are", "was", "be", "can", "will",
+  "&", "+",
+]);
+
+const TRAILING_PUNCTUATION = /[\s,;:.\-–—&/|+(["'“‘]+$/;
+
+// Drop an unclosed "(" or "[" group, e.g. "React Hooks (Part" -> "React Hooks"
+function dropUnclosedGroup(s: string): string {
+  for (const [open, close] of [["(", ")"], ["[", "]"]]) {
+    const lastOpen = s.lastIndexOf(open);
+    if (lastOpen !== -1 && s.indexOf(close, lastOpen) === -1) s = s.slice(0, lastOpen);
+  }
+  return s;
+}
+
+function stripDanglingEnd(s: string): string {
+  let prev: string;
+  do {
+    prev = s;
+    s = dropUnclosedGroup(s).replace(TRAILING_PUNCTUATION, "");
+    const words = s.split(/\s+/);
+    while (words.length > 1 && DANGLING_WORDS.has(words[words.length - 1].toLowerCase())) words.pop();
+    s = words.join(" ");
+  } while (s !== prev);
+  return s;
+}
+
+function cutAtWord(trimmed: string, maxLength: number): string {
+  let cut = trimmed.slice(0, maxLength);
+  const midWord = /\S/.test(trimmed[maxLength]) && /\S$/.test(cut);
+  if (midWord) {
+    const lastSpace = cut.search(/\s\S*$/);
+    if (lastSpace > 0) cut = cut.slice(0, lastSpace);
+  }
+  return stripDanglingEnd(cut.trim()) || cut.trim();
+}
+
+/**
+ * Shortens a title to `maxLength` at a word boundary, then drops dangling
+ * stopwords, trailing punctuation and unclosed brackets. A single word longer
+ * than the budget is the only case that gets cut mid-word. A question keeps
+ * its closing "?", so it still passes the question style check.
+ */
+export function shortenTitle(title: string, maxLength: number): string {
+  const trimmed = title.trim();
+  if (trimmed.length <= maxLength) return trimmed;
+  if (trimmed.endsWith("?") && maxLength > 1) return `${cutAtWord(trimmed, maxLength - 1).replace(/\?+$/, "")}?`;
+  return cutAtWord(trimmed, maxLength);
+}
+
+/** The title as-is when it fits, otherwise shortened and marked `trimmed`. */
+export function fitTitle(title: string, maxLength: number): FittedTitle {
+  const trimmed = title.trim();
+  if (trimmed.length <= maxLength) return { title: trimmed, status: "original" };
+  return { title: shortenTitle(trimmed, maxLength), status: "trimmed" };
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { contentTokens, cosineSimilarity, LEXICAL_DUPLICATE_THRESHOLD, levenshtein, lexicalSimilarity, sameTitle } from "./similarity";
+
+const isDuplicate = (a: string, b: string) => lexicalSimilarity(a, b) >= LEXICAL_DUPLICATE_THRESHOLD;
+
+describe("contentTokens", () => {
+  it("drops filler words", () => {
+    expect([...contentTokens("How to Build a REST API in Go")]).toEqual(["build", "rest", "api", "go"]);
+  });
+
+  it("keeps all words when the text is only filler", () => {
+    expect([...contentTokens("How to")]).toEqual(["how", "to"]);
+  });
+});
+
+describe("levenshtein", () => {
+  it("counts single-character edits", () => {
+    expect(levenshtein("kitten", "sitting")).toBe(3);
+    expect(levenshtein("same", "same")).toBe(0);
+    expect(levenshtein("", "abc")).toBe(3);
+  });
+});
+
+describe("lexicalSimilarity", () => {
+  it("treats paraphrases with only filler or punctuation changes as near-duplicates", () => {
+    expect(isDuplicate("React Hooks Explained", "React Hooks, Explained Simply")).toBe(true);
+    expect(isDuplicate("How to Learn Python Fast", "Learn Python Fast")).toBe(true);
+    expect(isDuplicate("JavaScript Tips for You", "Tips for JavaScript")).toBe(true);
+  });
+
+  it("matches long words one typo apart", () => {
+    expect(isDuplicate("JavaScript Tutoral for Beginners", "JavaScript Tutorial for Beginners")).toBe(true);
+  });
+
+  it("keeps titles apart when a content word changes", () => {
+    expect(isDuplicate("React Hooks for Beginners", "React Hooks for Experts")).toBe(false);
+    expect(isDuplicate("Build a REST API in Go", "Build a REST API in Rust")).toBe(false);
+    expect(isDuplicate("Python vs Java", "Python vs Rust")).toBe(false);
+  });
+
+  it("does not treat short words one edit apart as typos", () => {
+    expect(lexicalSimilarity("rest api", "rust api")).toBeCloseTo(1 / 3);
+  });
+
+  it("is symmetric and 1 for identical titles", () => {
+    expect(lexicalSimilarity("Learn Rust", "Learn Rust")).toBe(1);
+    expect(lexicalSimilarity("A B C", "C D")).toBe(lexicalSimilarity("C D", "A B C"));
+  });
+});
+
+describe("sameTitle", () => {
+  it("ignores case, punctuation and plurals", () => {
+    expect(sameTitle("React Hooks, Explained!", "react hook explained")).toBe(true);
+  });
+
+  it("tells close variants apart", () => {
+    expect(sameTitle("React Hooks Explained", "React Hooks Explained Simply")).toBe(false);
+    expect(sameTitle("Hooks in React", "React Hooks in")).toBe(false);
+  });
+});
+
+describe("cosineSimilarity", () => {
+  it("compares vector directions", () => {
+    expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+});
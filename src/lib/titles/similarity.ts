@@ -0,0 +1,84 @@
+import { tokenize } from "./score";
+
+/** Lexical similarity at or above this marks two titles as near-duplicates. */
+export const LEXICAL_DUPLICATE_THRESHOLD = 0.7;
+/** Embedding cosine similarity at or above this marks two titles as near-duplicates. */
+export const EMBEDDING_DUPLICATE_THRESHOLD = 0.9;
+
+/** Filler that makes paraphrases look different without changing what the title says. */
+const FILLER = new Set(["a", "an", "the", "and", "or", "of", "to", "for", "in", "on", "with", "your", "you", "how", "simply", "really", "just"]);
+
+/** Distinct words of `text` without filler; all words when it is nothing but filler. */
+export function contentTokens(text: string): Set<string> {
+  const tokens = tokenize(text);
+  const content = tokens.filter((t) => !FILLER.has(t));
+  return new Set(content.length ? content : tokens);
+}
+
+/** Words at least this long may differ by one edit (a typo or a plural) and still match. */
+const TYPO_MIN_LENGTH = 5;
+
+/** True when two titles have the same words once case, punctuation and plurals are ignored. */
+export function sameTitle(a: string, b: string): boolean {
+  return tokenize(a).join(" ") === tokenize(b).join(" ");
+}
+
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+function isTypo(a: string, b: string): boolean {
+  return Math.min(a.length, b.length) >= TYPO_MIN_LENGTH && Math.abs(a.length - b.length) <= 1 && levenshtein(a, b) <= 1;
+}
+
+/** Words shared by both sets: exact matches first, then one typo-level match per leftover word. */
+function sharedTokens(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  const leftA: string[] = [];
+  const leftB = new Set([...b].filter((t) => !a.has(t)));
+  for (const t of a) {
+    if (b.has(t)) shared++;
+    else leftA.push(t);
+  }
+  for (const t of leftA) {
+    const match = [...leftB].find((u) => isTypo(t, u));
+    if (match === undefined) continue;
+    leftB.delete(match);
+    shared++;
+  }
+  return shared;
+}
+
+/**
+ * 0-1 similarity from the overlap (Jaccard) of the titles' content words.
+ * Long words one edit apart count as the same word, so typos still match,
+ * while one swapped content word ("Go" vs "Rust") keeps titles apart.
+ */
+export function lexicalSimilarity(a: string, b: string): number {
+  const left = contentTokens(a);
+  const right = contentTokens(b);
+  if (!left.size && !right.size) return 1;
+  const shared = sharedTokens(left, right);
+  return shared / (left.size + right.size - shared);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { resolveProvider } from "@/lib/providers";
+import type { ModelProvider } from "@/lib/providers";
+import { setTitleCache } from "./cache";
+import { generateTitlesStream, readPartialTitles } from "./stream";
+import type { TitleStreamEvent } from "./stream";
+
+vi.mock("@/lib/providers", async (importOriginal) => ({ ...(await importOriginal<typeof import("@/lib/providers")>()), resolveProvider: vi.fn() }));
+
+describe("readPartialTitles", () => {
+  it("returns nothing before the titles field arrives", () => {
+    expect(readPartialTitles('{"summary": {"topic": "Ty')).toEqual([]);
+  });
+
+  it("returns only array items whose closing comma or bracket has arrived", () => {
+    const text = '{"titles": [{"title": "Learn TypeScript", "style": "how-to"}, {"title": "Generics, Expl';
+    expect(readPartialTitles(text)).toEqual([{ title: "Learn TypeScript", style: "how-to" }]);
+    expect(readPartialTitles(`${text}ained"}]`)).toEqual([{ title: "Learn TypeScript", style: "how-to" }, { title: "Generics, Explained" }]);
+  });
+
+  it("ignores brackets and escaped quotes inside strings", () => {
+    const text = '{"titles": [{"title": "Why \\"[]\\" Is Truthy"}, ';
+    expect(readPartialTitles(text)).toEqual([{ title: 'Why "[]" Is Truthy' }]);
+  });
+
+  it("reads the comma-separated string shape", () => {
+    expect(readPartialTitles('{"suggestions": "Learn TypeScript,Generics Expl')).toEqual([{ title: "Learn TypeScript" }]);
+    expect(readPartialTitles('{"suggestions": "Learn TypeScript,Generics Explained"')).toEqual([{ title: "Learn TypeScript" }, { title: "Generics Explained" }]);
+  });
+});
+
+describe("generateTitlesStream", () => {
+  const answer = JSON.stringify({
+    titles: [{ title: "Learn TypeScript Generics" }, { title: "Learn TypeScript Generic" }, { title: "Ship Faster With Types" }, { title: "Types That Scale" }],
+  });
+
+  function fakeProvider(): ModelProvider {
+    return {
+      id: "ollama",
+      defaultModel: "stub",
+      generate: async () => ({ text: answer, provider: "ollama", model: "stub" }),
+      async *stream() {
+        for (let i = 0; i < answer.length; i += 16) yield answer.slice(i, i + 16);
+      },
+    };
+  }
+
+  beforeEach(() => {
+    setTitleCache(null);
+    vi.mocked(resolveProvider).mockReturnValue({ provider: fakeProvider(), model: "stub" });
+  });
+
+  async function collect(events: AsyncGenerator<TitleStreamEvent>) {
+    const all: TitleStreamEvent[] = [];
+    for await (const event of events) all.push(event);
+    return all;
+  }
+
+  it("streams titles as they arrive and reports every checked title in meta.candidates", async () => {
+    const events = await collect(await generateTitlesStream({ description: "TypeScript generics", count: 2 }));
+    const titles = events.flatMap((e) => (e.type === "title" ? [e.item.title] : []));
+    expect(titles).toEqual(["Learn TypeScript Generics", "Ship Faster With Types"]);
+    const done = events.at(-1);
+    expect(done?.type).toBe("done");
+    if (done?.type !== "done") return;
+    expect(done.result.titles).toEqual(titles);
+    expect(done.result.items[0].duplicates).toEqual(["Learn TypeScript Generic"]);
+    expect(done.result.meta).toMatchObject({ count: 2, candidates: 4 });
+  });
+});
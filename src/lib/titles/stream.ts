@@ -0,0 +1,186 @@
+import { resolveProvider } from "@/lib/providers";
+import type { GenerateRequest, ModelProvider } from "@/lib/providers";
+import { readCachedTitles, titleCacheKey, writeCachedTitles } from "./cache";
+import { buildGenerateRequest, buildResult, finishTitle, fitTitles, parseAnswer, resolveInput, selectTitles } from "./generate";
+import { candidateFromItem, tryParseJson } from "./parse";
+import { titleConstraints } from "./prompt";
+import { scoreItem } from "./score";
+import { LEXICAL_DUPLICATE_THRESHOLD, lexicalSimilarity } from "./similarity";
+import { fitTitle } from "./shorten";
+import type { TitleSelection } from "./generate";
+import type { FittedTitle, GenerateTitlesOptions, GenerateTitlesResult, TitleCandidate, TitleConstraints, TitleInput, TitleItem } from "./types";
+
+export type TitleStreamEvent =
+  | { type: "title"; index: number; item: TitleItem }
+  | { type: "done"; result: GenerateTitlesResult };
+
+const TITLES_FIELD = /"(?:titles|suggestions)"\s*:\s*(["[])/;
+
+/**
+ * Reads the titles out of a JSON answer that may still be arriving. Only
+ * complete items are returned; the trailing one may still grow.
+ */
+export function readPartialTitles(text: string): TitleCandidate[] {
+  const match = TITLES_FIELD.exec(text);
+  if (!match) return [];
+  const start = match.index + match[0].length;
+  return match[1] === "[" ? readArrayItems(text, start) : readCommaString(text, start).map((title) => ({ title }));
+}
+
+// Top-level elements of the `titles` array, each one parsed once its closing "," or "]" has arrived
+function readArrayItems(text: string, start: number): TitleCandidate[] {
+  const items: TitleCandidate[] = [];
+  const push = (raw: string) => {
+    const parsed = raw.trim() ? tryParseJson(raw) : null;
+    const candidate = parsed === null ? null : candidateFromItem(parsed);
+    if (candidate?.title) items.push(candidate);
+  };
+  let depth = 0;
+  let inString = false;
+  let itemStart = start;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === "\\") i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === "{" || ch === "[") {
+      depth++;
+    } else if (ch === "}" || ch === "]") {
+      if (depth === 0) {
+        push(text.slice(itemStart, i));
+        break;
+      }
+      depth--;
+    } else if (ch === "," && depth === 0) {
+      push(text.slice(itemStart, i));
+      itemStart = i + 1;
+    }
+  }
+  return items;
+}
+
+// Prompt v1 shape: one comma-separated string. Items followed by a comma (or the closing quote) are complete.
+function readCommaString(text: string, start: number): string[] {
+  let value = "";
+  let closed = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') {
+      closed = true;
+      break;
+    }
+    if (ch !== "\\") {
+      value += ch;
+      continue;
+    }
+    const next = text[i + 1];
+    if (next === undefined) break;
+    if (next === "u") {
+      const hex = text.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += next === "n" ? "\n" : next === "t" ? "\t" : next;
+      i += 1;
+    }
+  }
+  const items = value.split(",");
+  return closed ? items : items.slice(0, -1);
+}
+
+/**
+ * Streaming variant of `generateTitles`: yields each title as soon as it has
+ * been fully received, then a `done` event with the same normalized result
+ * the non-streaming call returns. The provider, voice profile and examples
+ * are resolved up front so a bad selection throws before any response is started. In
+ * `rewrite` mode titles over budget are held back until the repair pass has run.
+ */
+export async function generateTitlesStream(request: TitleInput, options: GenerateTitlesOptions = {}): Promise<AsyncGenerator<TitleStreamEvent>> {
+  const { provider, model } = resolveProvider({ provider: options.provider, model: options.model });
+  const input = await resolveInput(request, { provider, model, signal: options.signal });
+  return streamTitles(provider, buildGenerateRequest(input, model, options), input, titleConstraints(input), titleCacheKey(input, provider.id, model), options.cache !== "bypass");
+}
+
+async function* streamTitles(
+  provider: ModelProvider,
+  request: GenerateRequest,
+  input: TitleInput,
+  constraints: TitleConstraints,
+  cacheKey: string,
+  useCache: boolean,
+): AsyncGenerator<TitleStreamEvent> {
+  const cached = useCache ? await readCachedTitles(cacheKey) : null;
+  if (cached) {
+    for (const [index, item] of cached.items.entries()) yield { type: "title", index, item };
+    yield { type: "done", result: cached };
+    return;
+  }
+
+  const items: TitleItem[] = [];
+  const seen = new Set<string>();
+  const handled = new Set<string>();
+  // Fitted titles that passed the checks, before near-duplicates fold and `count` cuts; `meta.candidates` as in `selectTitles`
+  let considered = 0;
+  let text = "";
+
+  function* push(item: TitleItem): Generator<TitleStreamEvent> {
+    items.push(item);
+    yield { type: "title", index: items.length - 1, item };
+  }
+
+  function* emit(fitted: FittedTitle | null): Generator<TitleStreamEvent> {
+    if (!fitted || !fitted.title || seen.has(fitted.title)) return;
+    seen.add(fitted.title);
+    considered++;
+    // Same rule as `selectTitles`: a near-duplicate folds into the earlier title
+    const into = items.findIndex((item) => lexicalSimilarity(item.title, fitted.title) >= LEXICAL_DUPLICATE_THRESHOLD);
+    if (into !== -1) {
+      items[into] = { ...items[into], duplicates: [...(items[into].duplicates ?? []), fitted.title] };
+      return;
+    }
+    if (constraints.count !== null && items.length >= constraints.count) return;
+    yield* push(scoreItem(fitted, constraints));
+  }
+
+  function* fresh(candidates: TitleCandidate[]): Generator<TitleStreamEvent> {
+    for (const raw of candidates) {
+      const candidate = raw.title.trim();
+      if (!candidate || handled.has(candidate)) continue;
+      if (candidate.length > constraints.maxLength && constraints.overLength === "rewrite") continue;
+      handled.add(candidate);
+      yield* emit(finishTitle({ ...fitTitle(candidate, constraints.maxLength), style: raw.style }, constraints));
+    }
+  }
+
+  // Reranked titles can only go out once the judge has ordered them
+  const rerank = constraints.rerankCandidates !== null;
+  for await (const delta of provider.stream(request)) {
+    text += delta;
+    if (!rerank) yield* fresh(readPartialTitles(text));
+  }
+
+  const { candidates, summary: read } = parseAnswer(text);
+  const summary = input.summary ?? read;
+  const model = request.model || provider.defaultModel;
+  const ctx = { provider, model, signal: request.signal };
+  let selection: TitleSelection;
+  if (rerank) {
+    selection = await selectTitles(candidates, summary, input, constraints, ctx);
+    for (const item of selection.items) yield* push(item);
+  } else {
+    yield* fresh(candidates);
+    const deferred = candidates.filter((c) => !handled.has(c.title));
+    const repaired = await fitTitles(deferred, { ...constraints, count: null }, ctx);
+    for (const item of repaired) yield* emit(item);
+    selection = { items, candidates: considered, reranked: false };
+  }
+
+  const result = buildResult(selection, summary, provider.id, model, constraints);
+  await writeCachedTitles(cacheKey, result);
+  yield { type: "done", result };
+}
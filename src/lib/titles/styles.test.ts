@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { fitTitle } from "./shorten";
+import { applyStyle, parseStyle } from "./styles";
+
+describe("parseStyle", () => {
+  it("accepts loose spellings of known styles", () => {
+    expect(parseStyle("Curiosity Gap")).toBe("curiosity-gap");
+    expect(parseStyle("how_to")).toBe("how-to");
+    expect(parseStyle("rant")).toBeUndefined();
+  });
+});
+
+describe("applyStyle", () => {
+  it("passes titles untagged when no styles were requested", () => {
+    expect(applyStyle({ title: "Why Rust?", status: "original", style: "question" }, [])).toEqual({ title: "Why Rust?", status: "original" });
+  });
+
+  it("tags an untagged title with the only requested style", () => {
+    expect(applyStyle({ title: "7 TypeScript Tips", status: "original" }, ["listicle"])?.style).toBe("listicle");
+    expect(applyStyle({ title: "7 TypeScript Tips", status: "original" }, ["listicle", "question"])).toBeNull();
+  });
+
+  it("drops titles tagged with a style that wasn't requested", () => {
+    expect(applyStyle({ title: "Is Rust Worth It?", status: "original", style: "question" }, ["listicle"])).toBeNull();
+  });
+
+  it("drops titles that fail their style's check", () => {
+    expect(applyStyle({ title: "TypeScript Tips", status: "original", style: "listicle" }, ["listicle"])).toBeNull();
+    expect(applyStyle({ title: "Rust vs Go in 2025", status: "original", style: "comparison" }, ["comparison"])?.style).toBe("comparison");
+  });
+
+  it("keeps a question that had to be trimmed", () => {
+    const fitted = fitTitle("Is TypeScript Still Worth Learning for Backend Developers in 2025?", 40);
+    expect(fitted.title.length).toBeLessThanOrEqual(40);
+    expect(applyStyle({ ...fitted, style: "question" }, ["question"])?.style).toBe("question");
+  });
+});
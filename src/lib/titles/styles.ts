@@ -0,0 +1,66 @@
+import type { FittedTitle, TitleStyle } from "./types";
+
+export const TITLE_STYLES: TitleStyle[] = ["how-to", "listicle", "question", "curiosity-gap", "comparison", "story"];
+
+type StyleGuide = {
+  label: string;
+  /** Line added to the system instruction when the style is requested. */
+  prompt: string;
+  /** Structural check a title must pass to be returned under this style. */
+  check(title: string): boolean;
+};
+
+export const STYLE_GUIDES: Record<TitleStyle, StyleGuide> = {
+  "how-to": {
+    label: "How-to",
+    prompt: 'how-to: promises a practical result, phrased as "How to ..." or as a guide/tutorial.',
+    check: (t) => /\bhow to\b|\b(guide|tutorial|step[- ]by[- ]step)\b/i.test(t),
+  },
+  listicle: {
+    label: "Listicle",
+    prompt: 'listicle: starts with a number, e.g. "7 TypeScript Tips ...".',
+    check: (t) => /^\d/.test(t),
+  },
+  question: {
+    label: "Question",
+    prompt: 'question: a question the video answers, ending with "?".',
+    check: (t) => t.trimEnd().endsWith("?"),
+  },
+  "curiosity-gap": {
+    label: "Curiosity gap",
+    prompt: "curiosity-gap: hints at a surprising finding without giving it away, with no hype words.",
+    // Not structural; the hype check in the scores still applies
+    check: () => true,
+  },
+  comparison: {
+    label: "Comparison",
+    prompt: 'comparison: weighs two or more options, e.g. "X vs Y" or "X or Y?".',
+    check: (t) => /\b(vs\.?|versus|or|compared|than)\b/i.test(t),
+  },
+  story: {
+    label: "Story",
+    prompt: 'story: a first-person account of what happened, e.g. "I Rebuilt My App in Rust".',
+    check: (t) => /\b(i|i'm|i've|i’m|i’ve|we|we're|my|our)\b/i.test(t),
+  },
+};
+
+/** Reads the model's style tag, tolerating "Curiosity Gap" or "how_to" spellings. */
+export function parseStyle(value: unknown): TitleStyle | undefined {
+  if (typeof value !== "string") return undefined;
+  const slug = value.trim().toLowerCase().replace(/[\s_]+/g, "-");
+  return TITLE_STYLES.find((s) => s === slug);
+}
+
+/**
+ * Tags a fitted title with its style, or returns `null` when the title must
+ * be dropped: its tag isn't one of the requested styles or the title fails
+ * that style's check. An untagged title is taken to be in the only requested
+ * style, if there is just one. Without requested styles titles pass untagged.
+ */
+export function applyStyle(title: FittedTitle, styles: TitleStyle[]): FittedTitle | null {
+  const { style, ...rest } = title;
+  if (!styles.length) return rest;
+  const tagged = style ?? (styles.length === 1 ? styles[0] : undefined);
+  if (!tagged || !styles.includes(tagged) || !STYLE_GUIDES[tagged].check(title.title)) return null;
+  return { ...rest, style: tagged };
+}
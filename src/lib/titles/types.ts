@@ -0,0 +1,164 @@
+import type { VoiceProfile } from "@/lib/profiles/types";
+import type { ModelProvider, ProviderId } from "@/lib/providers/types";
+
+export type TitleInput = {
+  description?: string;
+  keywords?: string[];
+  niche?: string;
+  language?: string;
+  /** Exact number of titles wanted; the model is asked for 8-12 when unset. */
+  count?: number;
+  /** Character budget per title; defaults to 45. */
+  maxLength?: number;
+  /** What to do with titles over `maxLength`: cut at a word boundary (default) or ask the model to shorten them. */
+  overLength?: OverLengthMode;
+  /** Over-generate, have the model judge every candidate, and return the best `count` (default 10). */
+  rerank?: boolean;
+  /** Candidates generated before judging when `rerank` is on; defaults to 30. */
+  candidates?: number;
+  /** 0-1 weight on variety over quality when picking the reranked titles; defaults to 0.3. */
+  diversity?: number;
+  /** `embeddings` adds embedding similarity to near-duplicate detection when reranking (provider permitting). */
+  similarity?: SimilarityMode;
+  /** Title archetypes to write in; every title is tagged with one and checked against it. */
+  styles?: TitleStyle[];
+  /** Brand voice profile to write in; resolved into `voice` before generation. */
+  profileId?: string;
+  voice?: VoiceProfile;
+  /** Channel whose past titles are used as few-shot examples; resolved into `examples` before generation. */
+  channelId?: string;
+  examples?: TitleExample[];
+  /** A corrected reading of the brief; the model writes for it and it is returned as the result's summary. */
+  summary?: TitleSummary;
+  /** Titles already seen or rejected; the model is told to avoid them and near-duplicates of them are dropped. */
+  exclude?: string[];
+  /** A title to write more like: same angle and structure, new wording. It is never returned itself. */
+  like?: string;
+};
+
+/** A channel's past title shown to the model as a few-shot example. */
+export type TitleExample = {
+  title: string;
+  views: number | null;
+  /** Click-through rate in percent. */
+  ctr: number | null;
+};
+
+export type TitleStyle = "how-to" | "listicle" | "question" | "curiosity-gap" | "comparison" | "story";
+
+export type SimilarityMode = "lexical" | "embeddings";
+
+export type OverLengthMode = "trim" | "rewrite";
+
+export type TitleConstraints = {
+  count: number | null;
+  keywords: string[];
+  maxLength: number;
+  overLength: OverLengthMode;
+  /** Candidates to ask for when reranking; `null` when reranking is off. */
+  rerankCandidates: number | null;
+  diversity: number;
+  embeddings: boolean;
+  styles: TitleStyle[];
+  voice: VoiceProfile | null;
+  /** Few-shot examples; `null` when the request names no channel. */
+  examples: TitleExample[] | null;
+  /** Titles that must not come back, nor near-duplicates of them. Never includes the `like` anchor. */
+  exclude: string[];
+  /** The "more like this" anchor; only copies of it are dropped, close variants are what was asked for. */
+  like: string | null;
+};
+
+/** The provider and model a generation ran on; follow-up calls (repair, judging) reuse them. */
+export type ModelContext = {
+  provider: ModelProvider;
+  model: string;
+  signal?: AbortSignal;
+};
+
+/** How a title reached its final form: as generated, cut at a word boundary, or shortened by the model. */
+export type TitleStatus = "original" | "trimmed" | "rewritten";
+
+/** A title as the model wrote it, with the style it claims when styles were requested. */
+export type TitleCandidate = {
+  title: string;
+  style?: TitleStyle;
+  /** What a rewrite changed from the original title; only asked for when rewriting. */
+  explanation?: string;
+};
+
+export type FittedTitle = {
+  title: string;
+  status: TitleStatus;
+  style?: TitleStyle;
+  explanation?: string;
+};
+
+/** 0-100 per component; `null` when the component doesn't apply (no `keywords` in the request). */
+export type TitleScores = {
+  /** Share of the request keywords present in the title. */
+  keywordCoverage: number | null;
+  /** How well the title uses its character budget without going over. */
+  lengthFit: number;
+  /** How early the first (primary) keyword appears. */
+  frontLoading: number | null;
+  readability: number;
+  /** Hype words, shouting, "!!!" and emoji. Higher is worse; subtracted from `overall`. */
+  clickbaitPenalty: number;
+  overall: number;
+};
+
+/** The judge's verdict in rerank mode. */
+export type TitleJudgement = {
+  /** 1-10 against the rubric built from the brief's summary. */
+  score: number;
+  rationale: string;
+};
+
+export type TitleItem = FittedTitle & {
+  scores: TitleScores;
+  judge?: TitleJudgement;
+  /** Near-duplicate candidates collapsed into this title. */
+  duplicates?: string[];
+};
+
+export type TitleSummary = {
+  topic: string;
+  angle: string;
+  audience: string;
+  notes: string;
+};
+
+export type GenerateTitlesOptions = {
+  provider?: string;
+  model?: string;
+  /** `bypass` skips the cached answer (the fresh one still replaces it). */
+  cache?: "default" | "bypass";
+  signal?: AbortSignal;
+};
+
+export type GenerateTitlesMeta = {
+  count: number;
+  maxLength: number;
+  /** Titles considered before selection (more than `count` when reranking). */
+  candidates: number;
+  /** True when the judge ordered the titles; false when reranking was off or the judge call failed. */
+  reranked: boolean;
+  model: string;
+  provider: ProviderId;
+  /** True when served from the response cache. */
+  cached: boolean;
+  /** ISO timestamp of the model call that produced these titles. */
+  generatedAt: string;
+  /** The channel's past titles given to the model as examples, without their views and CTR; only with `channelId`. */
+  examples?: string[];
+};
+
+/** The one result contract shared by `/api/suggest`, `/api/public/titles` and the page. */
+export type GenerateTitlesResult = {
+  titles: string[];
+  /** Same order as `titles`, with per-title details. */
+  items: TitleItem[];
+  summary: TitleSummary | null;
+  meta: GenerateTitlesMeta;
+};
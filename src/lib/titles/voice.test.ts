@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import type { VoiceProfile } from "@/lib/profiles/types";
+import { applyVoice } from "./voice";
+
+function profile(fields: Partial<VoiceProfile> = {}): VoiceProfile {
+  return {
+    id: "p1",
+    name: "Main channel",
+    tone: [],
+    bannedWords: [],
+    preferredWords: [],
+    capitalization: "any",
+    emoji: "any",
+    exampleTitles: [],
+    createdAt: "2025-01-01T00:00:00.000Z",
+    updatedAt: "2025-01-01T00:00:00.000Z",
+    ...fields,
+  };
+}
+
+const voiced = (title: string, voice: VoiceProfile, keywords: string[] = []) => applyVoice({ title, status: "original" }, voice, keywords)?.title ?? null;
+
+describe("applyVoice", () => {
+  it("leaves titles alone without a profile", () => {
+    const title = { title: "INSANE React Hacks 🔥", status: "original" as const };
+    expect(applyVoice(title, null, [])).toBe(title);
+  });
+
+  it("drops titles with a banned word in any case or number", () => {
+    const voice = profile({ bannedWords: ["hack", "gone wrong"] });
+    expect(voiced("Five React Hacks You Need", voice)).toBeNull();
+    expect(voiced("Deploy Gone Wrong", voice)).toBeNull();
+    expect(voiced("Hackathon Recap", voice)).toBe("Hackathon Recap");
+  });
+
+  it("applies the emoji policy", () => {
+    expect(voiced("Ship It 🚀 Today 🔥", profile({ emoji: "none" }))).toBe("Ship It Today");
+    expect(voiced("Ship It 🚀 Today 🔥", profile({ emoji: "one" }))).toBe("Ship It 🚀 Today");
+  });
+
+  it("writes Title Case, keeping short joining words and styled words", () => {
+    expect(voiced("a guide to TypeScript for the iPhone era", profile({ capitalization: "title" }))).toBe("A Guide to TypeScript for the iPhone Era");
+  });
+
+  it("writes sentence case, keeping styled words, keywords in any case and profile vocabulary", () => {
+    const voice = profile({ capitalization: "sentence", preferredWords: ["Postgres"] });
+    expect(voiced("Learn React Hooks With Next.js In 2025", voice, ["react hooks"])).toBe("Learn React Hooks with Next.js in 2025");
+    expect(voiced("Why We Moved To Postgres: The Full Story", voice)).toBe("Why we moved to Postgres: The full story");
+  });
+});
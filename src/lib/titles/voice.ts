@@ -0,0 +1,119 @@
+import { getProfileStore } from "@/lib/profiles/store";
+import type { VoiceProfile } from "@/lib/profiles/types";
+import { RequestValidationError } from "@/lib/validation";
+import { containsKeyword, tokenize } from "./score";
+import type { FittedTitle, TitleInput } from "./types";
+
+const EMOJI = /\p{Extended_Pictographic}(?:\u{FE0F}|\u{200D}\p{Extended_Pictographic})*/gu;
+
+/** Kept lowercase inside Title Case unless first or last. */
+const SMALL_WORDS = new Set([
+  "a", "an", "the", "and", "but", "or", "nor", "for", "so", "yet", "as", "at", "by", "in", "of", "on", "to", "up", "vs", "vs.", "via",
+]);
+
+/** Resolves `profileId` into the profile itself, or throws a 400 naming the field. */
+export async function withVoice(input: TitleInput): Promise<TitleInput> {
+  if (!input.profileId) return input;
+  const voice = await getProfileStore().get(input.profileId);
+  if (!voice) throw new RequestValidationError([{ path: "profileId", message: "profile not found" }]);
+  return { ...input, voice };
+}
+
+/** System instruction lines that describe the voice; the tone replaces the default one. */
+export function voiceRules(voice: VoiceProfile): string[] {
+  const lines: string[] = [];
+  if (voice.tone.length) lines.push(`- Brand voice: ${voice.tone.join(", ")}.`);
+  if (voice.preferredWords.length) lines.push(`- Prefer this vocabulary where it fits: ${voice.preferredWords.join(", ")}.`);
+  if (voice.bannedWords.length) lines.push(`- Never use these words or phrases: ${voice.bannedWords.join(", ")}.`);
+  if (voice.capitalization === "title") lines.push("- Write titles in Title Case.");
+  if (voice.capitalization === "sentence") lines.push("- Write titles in sentence case: capitalize only the first word and proper nouns.");
+  if (voice.emoji === "one") lines.push("- At most one emoji per title.");
+  if (voice.exampleTitles.length) {
+    lines.push("- Match the voice (not the topics) of these published titles:");
+    lines.push(...voice.exampleTitles.map((t) => `  - ${t}`));
+  }
+  return lines;
+}
+
+// Whole words, any case, with the same plural fold as scoring, so "hack" also catches "Hacks"
+function containsPhrase(title: string, phrase: string): boolean {
+  return containsKeyword(tokenize(title), phrase) >= 0;
+}
+
+function applyEmojiPolicy(title: string, policy: VoiceProfile["emoji"]): string {
+  if (policy === "any") return title;
+  let kept = 0;
+  return title
+    .replace(EMOJI, (e) => (policy === "one" && kept++ === 0 ? e : ""))
+    .replace(/\s{2,}/g, " ")
+    .trim();
+}
+
+// Recases the letters of one space-separated word, leaving surrounding punctuation alone
+function recaseWord(word: string, fn: (core: string) => string): string {
+  const match = /^([^\p{L}\p{N}]*)([\p{L}\p{N}'’.-]*)(.*)$/u.exec(word);
+  return match ? match[1] + fn(match[2]) + match[3] : word;
+}
+
+/** Words with capitals past the first letter, digits or inner dots ("TypeScript", "iPhone", "GPT-4", "Next.js") are left as written. */
+const isStyled = (core: string) => /\p{Lu}/u.test(core.slice(1)) || /\p{N}/u.test(core) || /\p{L}\.\p{L}/u.test(core);
+
+function titleCase(title: string): string {
+  const words = title.split(" ");
+  return words
+    .map((word, i) =>
+      recaseWord(word, (core) => {
+        if (!core || isStyled(core)) return core;
+        const lower = core.toLowerCase();
+        if (i > 0 && i < words.length - 1 && SMALL_WORDS.has(lower)) return lower;
+        return lower.charAt(0).toUpperCase() + lower.slice(1);
+      }),
+    )
+    .join(" ");
+}
+
+/**
+ * Capitalized words after the first are lowercased unless they look like a
+ * name: styled words, "I", words capitalized in the profile's vocabulary or
+ * examples, and words starting a new sentence after ":", "?", "!" or ".".
+ */
+function sentenceCase(title: string, properNouns: Set<string>): string {
+  const words = title.split(" ");
+  return words
+    .map((word, i) =>
+      recaseWord(word, (core) => {
+        if (i === 0) return core.charAt(0).toUpperCase() + core.slice(1);
+        if (!core || isStyled(core) || /^I(['’]|$)/.test(core) || properNouns.has(core.toLowerCase())) return core;
+        if (/[:?!.]$/.test(words[i - 1])) return core;
+        return core.toLowerCase();
+      }),
+    )
+    .join(" ");
+}
+
+const bareWords = (text: string) => text.split(/\s+/).map((w) => w.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "")).filter(Boolean);
+
+/**
+ * Lowercased words to keep as written: capitalized words the profile itself
+ * uses (ignoring the first word of each example) and every keyword word in
+ * any case, except short joining words.
+ */
+function profileProperNouns(voice: VoiceProfile, keywords: string[]): Set<string> {
+  const capitalized = [...voice.preferredWords.flatMap(bareWords), ...voice.exampleTitles.flatMap((t) => bareWords(t).slice(1))].filter((w) => /^\p{Lu}/u.test(w));
+  const keywordWords = keywords.flatMap(bareWords).filter((w) => !SMALL_WORDS.has(w.toLowerCase()));
+  return new Set([...capitalized, ...keywordWords].map((w) => w.toLowerCase()));
+}
+
+/**
+ * Enforces the voice on a fitted title: drops it when it contains a banned
+ * word, otherwise applies the emoji policy and capitalization. Never makes a
+ * title longer, so the length budget still holds.
+ */
+export function applyVoice(title: FittedTitle, voice: VoiceProfile | null, keywords: string[]): FittedTitle | null {
+  if (!voice) return title;
+  if (voice.bannedWords.some((w) => containsPhrase(title.title, w))) return null;
+  let text = applyEmojiPolicy(title.title, voice.emoji);
+  if (voice.capitalization === "title") text = titleCase(text);
+  if (voice.capitalization === "sentence") text = sentenceCase(text, profileProperNouns(voice, keywords));
+  return text ? { ...title, title: text } : null;
+}
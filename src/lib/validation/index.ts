@@ -0,0 +1,37 @@
+import type { z } from "zod";
+
+export type ValidationIssue = {
+  /** Dotted path to the offending field, e.g. `keywords.2`. Empty for the body itself. */
+  path: string;
+  message: string;
+};
+
+/** A request body that failed its schema. Routes answer `400 { error, issues }`. */
+export class RequestValidationError extends Error {
+  readonly status = 400;
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[], message = "Invalid request body") {
+    super(message);
+    this.name = "RequestValidationError";
+    this.issues = issues;
+  }
+}
+
+/** Parses `body` with `schema`, throwing `RequestValidationError` with field-level paths on failure. */
+export function parseWithSchema<S extends z.ZodType>(schema: S, body: unknown): z.infer<S> {
+  const result = schema.safeParse(body);
+  if (result.success) return result.data;
+  throw new RequestValidationError(
+    result.error.issues.map((issue) => ({ path: issue.path.map(String).join("."), message: issue.message })),
+  );
+}
+
+/** Reads a JSON request body; malformed JSON becomes a validation error rather than an empty object. */
+export async function readJsonBody(req: Request): Promise<unknown> {
+  try {
+    return await req.json();
+  } catch {
+    throw new RequestValidationError([{ path: "", message: "Body must be valid JSON" }]);
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { corsHeaders } from "@/lib/cors";
+import { checkRateLimit, rateLimitHeaders } from "@/lib/rate-limit";
+
+// Throttles the title endpoints before any model call is made
+export async function middleware(req: NextRequest) {
+  if (req.method === "OPTIONS") return NextResponse.next();
+  // Job status polls are cheap store reads, not model calls
+  if (req.method === "GET" && req.nextUrl.pathname.startsWith("/api/public/jobs/")) return NextResponse.next();
+
+  const isPublic = req.nextUrl.pathname.startsWith("/api/public/");
+  const decision = await checkRateLimit(req, isPublic ? "public" : "suggest");
+  if (!decision) return NextResponse.next();
+
+  const headers = rateLimitHeaders(decision);
+  if (!decision.allowed) {
+    // Same `{ error }` body as the routes; CORS headers so browsers can read it
+    return NextResponse.json(
+      { error: "Too many requests" },
+      {
+        status: 429,
+        headers: { ...headers, ...(isPublic ? corsHeaders() : {}) },
+      },
+    );
+  }
+
+  const res = NextResponse.next();
+  for (const [name, value] of Object.entries(headers)) res.headers.set(name, value);
+  return res;
+}
+
+export const config = {
+  matcher: ["/api/public/:path*", "/api/suggest/:path*"],
+};